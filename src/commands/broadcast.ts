@@ -0,0 +1,110 @@
+import chalk from "chalk";
+import { ethers } from "ethers";
+import { CommandModule } from "yargs";
+import { Apm } from "../utils/Apm";
+import { readManifest } from "../utils/manifest";
+import { getExplorerTxLink } from "../utils/getLinks";
+import { verifyEthConnection } from "../utils/verifyEthConnection";
+import { CliGlobalOptions, Network, networkNames } from "../types";
+import { CliError, defaultDir, defaultNetwork, networks } from "../params";
+
+interface CliCommandOptions extends CliGlobalOptions {
+  signedTx: string;
+  eth_provider?: string;
+  network?: Network;
+  confirmations?: number;
+  forwarder?: string;
+}
+
+export const broadcast: CommandModule<CliGlobalOptions, CliCommandOptions> = {
+  command: "broadcast <signedTx>",
+  describe:
+    "Broadcast a publish transaction exported with --unsigned_tx and signed offline",
+
+  builder: yargs =>
+    yargs
+      .positional("signedTx", {
+        description: "RLP serialized signed transaction",
+        type: "string"
+      })
+      .option("eth_provider", {
+        description: `Specify an eth provider: "dappnode", "infura", "localhost:5002". Defaults to the RPC of the network, "dappnode" for mainnet`,
+        type: "string"
+      })
+      .option("network", {
+        description: `Network of the APM registry`,
+        choices: networkNames,
+        default: defaultNetwork
+      })
+      .option("confirmations", {
+        description: `Number of confirmations to wait for after broadcasting the transaction`,
+        default: 1,
+        type: "number"
+      })
+      .option("forwarder", {
+        description: `Aragon forwarder used with publish --forwarder, the expected target of the transaction`,
+        type: "string"
+      })
+      .require("signedTx"),
+
+  handler: async (args): Promise<void> => {
+    const { txHash } = await broadcastHandler(args);
+    if (!args.silent)
+      console.log(`
+  ${chalk.green(`Transaction broadcasted`)}
+  Tx hash : ${txHash}
+  ${getExplorerTxLink(args.network || defaultNetwork, txHash)}
+  `);
+  }
+};
+
+/**
+ * Common handler for CLI and programatic usage
+ */
+export async function broadcastHandler({
+  signedTx,
+  eth_provider,
+  network = defaultNetwork,
+  confirmations = 1,
+  forwarder,
+  // Global options
+  dir = defaultDir
+}: CliCommandOptions): Promise<{ txHash: string }> {
+  const ethProvider = eth_provider || networks[network].rpc;
+
+  let tx: ethers.Transaction;
+  try {
+    tx = ethers.utils.parseTransaction(signedTx);
+  } catch (e) {
+    throw new CliError(`Invalid serialized transaction: ${e.message}`);
+  }
+  if (!tx.from) throw new CliError(`The transaction is not signed`);
+  await verifyEthConnection(ethProvider, network);
+
+  // Same target as the publish tx: the forwarder, the Repo,
+  // or the Registry if the Repo doesn't exist
+  const apm = new Apm(ethProvider, network);
+  const chainId = await apm.getChainId();
+  if (tx.chainId !== chainId)
+    throw new CliError(
+      `The transaction is for chainId ${tx.chainId}, but network ${network} has chainId ${chainId}`
+    );
+  const { manifest } = readManifest({ dir });
+  const apmContract =
+    (await apm.getRepoContract(manifest.name)) ||
+    (await apm.getRegistryContract(manifest.name));
+  if (!apmContract)
+    throw new CliError(`There must exist a registry for ${manifest.name}`);
+  const expectedTo = forwarder || apmContract.address;
+  if (!tx.to || tx.to.toLowerCase() !== expectedTo.toLowerCase())
+    throw new CliError(
+      `The transaction is sent to ${tx.to}, but the ${
+        forwarder ? "forwarder" : `APM contract of ${manifest.name}`
+      } is ${expectedTo}`
+    );
+
+  const txResponse = await apm.provider.sendTransaction(signedTx);
+  // Throws if the transaction reverts
+  await txResponse.wait(confirmations);
+  return { txHash: txResponse.hash };
+}
@@ -8,17 +8,25 @@ import { buildAndUpload } from "../tasks/buildAndUpload";
 import { getCurrentLocalVersion } from "../utils/versions/getCurrentLocalVersion";
 import { getInstallDnpLink } from "../utils/getLinks";
 import { CliGlobalOptions } from "../types";
-import { UploadTo } from "../releaseUploader";
-import { defaultComposeFileName, defaultDir } from "../params";
+import {
+  defaultComposeFileName,
+  defaultDir,
+  defaultUploadRetries
+} from "../params";
 
 interface CliCommandOptions extends CliGlobalOptions {
   provider: string;
-  upload_to: UploadTo;
+  upload_to: string;
   timeout?: string;
+  upload_retries?: number;
+  verify_availability?: boolean;
+  gateway?: string;
   skip_save?: boolean;
   skip_upload?: boolean;
   require_git_data?: boolean;
   delete_old_pins?: boolean;
+  ignore_size_limits?: boolean;
+  add_changelog?: boolean;
 }
 
 export const build: CommandModule<CliGlobalOptions, CliCommandOptions> = {
@@ -28,20 +36,33 @@ export const build: CommandModule<CliGlobalOptions, CliCommandOptions> = {
   builder: {
     provider: {
       alias: "p",
-      description: `Specify an ipfs provider: "dappnode" (default), "infura", "localhost:5002"`,
+      description: `Specify an ipfs provider: "dappnode" (default), "infura", "localhost:5002". Use a comma separated list to upload to several providers: "dappnode,pinata"`,
       default: "dappnode"
     },
     upload_to: {
       alias: "upload_to",
-      description: `Specify where to upload the release`,
-      choices: ["ipfs", "swarm"] as UploadTo[],
-      default: "ipfs" as UploadTo
+      description: `Specify where to upload the release: "ipfs" (default), "swarm". All providers upload to this network`,
+      default: "ipfs",
+      type: "string"
     },
     timeout: {
       alias: "t",
       description: `Overrides default build timeout: "15h", "20min 15s", "5000". Specs npmjs.com/package/timestring`,
       default: "60min"
     },
+    upload_retries: {
+      description: `Max number of retries of failed upload requests`,
+      default: defaultUploadRetries,
+      type: "number"
+    },
+    verify_availability: {
+      description: `After uploading, verify that all release files can be retrieved with the right size`,
+      type: "boolean"
+    },
+    gateway: {
+      description: `IPFS gateway to verify the release availability. Defaults to "https://ipfs.io"`,
+      type: "string"
+    },
     skip_save: {
       description: `For testing only: do not save image to disk`,
       type: "boolean"
@@ -49,6 +70,14 @@ export const build: CommandModule<CliGlobalOptions, CliCommandOptions> = {
     skip_upload: {
       description: `For testing only: do not upload image from disk`,
       type: "boolean"
+    },
+    ignore_size_limits: {
+      description: `For testing only: do not enforce the max size of release files`,
+      type: "boolean"
+    },
+    add_changelog: {
+      description: `Set manifest.changelog from the CHANGELOG.md or the git history since the last release`,
+      type: "boolean"
     }
   },
 
@@ -56,7 +85,12 @@ export const build: CommandModule<CliGlobalOptions, CliCommandOptions> = {
     const { releaseMultiHash } = await buildHandler(args);
 
     if (args.skipUpload) {
-      return console.log(chalk.green("\nDNP (DAppNode Package) built\n"));
+      console.log(chalk.green("\nDNP (DAppNode Package) built\n"));
+      if (releaseMultiHash)
+        console.log(
+          `  Release hash : ${releaseMultiHash} (computed locally)\n`
+        );
+      return;
     }
 
     console.log(`
@@ -73,11 +107,16 @@ export const build: CommandModule<CliGlobalOptions, CliCommandOptions> = {
 export async function buildHandler({
   provider,
   timeout,
+  upload_retries,
+  verify_availability,
+  gateway,
   upload_to,
   skip_save,
   skip_upload,
   require_git_data,
   delete_old_pins,
+  ignore_size_limits,
+  add_changelog,
   // Global options
   dir = defaultDir,
   compose_file_name = defaultComposeFileName,
@@ -100,12 +139,17 @@ export async function buildHandler({
       buildDir,
       contentProvider,
       uploadTo,
+      uploadRetries: upload_retries,
+      verifyAvailability: verify_availability,
+      gatewayUrl: gateway,
       userTimeout,
       skipSave,
       skipUpload,
       composeFileName,
       requireGitData: require_git_data,
-      deleteOldPins: delete_old_pins
+      deleteOldPins: delete_old_pins,
+      ignoreSizeLimits: ignore_size_limits,
+      addChangelog: add_changelog
     }),
     { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
   );
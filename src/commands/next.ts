@@ -1,12 +1,13 @@
 import { CommandModule } from "yargs";
 import { getNextVersionFromApm } from "../utils/versions/getNextVersionFromApm";
 import { verifyEthConnection } from "../utils/verifyEthConnection";
-import { CliGlobalOptions, ReleaseType } from "../types";
-import { defaultDir } from "../params";
+import { CliGlobalOptions, Network, networkNames, ReleaseType } from "../types";
+import { defaultDir, defaultNetwork, networks } from "../params";
 
 interface CliCommandOptions extends CliGlobalOptions {
   type: string;
-  provider: string;
+  provider?: string;
+  network?: Network;
 }
 
 export const next: CommandModule<CliGlobalOptions, CliCommandOptions> = {
@@ -22,10 +23,14 @@ export const next: CommandModule<CliGlobalOptions, CliCommandOptions> = {
       })
       .option("provider", {
         alias: "p",
-        description: `Specify an ipfs provider: "dappnode" (default), "infura", "localhost:5002"`,
-        default: "dappnode",
+        description: `Specify an eth provider: "dappnode", "infura", "localhost:5002". Defaults to the RPC of the network, "dappnode" for mainnet`,
         type: "string"
       })
+      .option("network", {
+        description: `Network of the APM registry`,
+        choices: networkNames,
+        default: defaultNetwork
+      })
       .require("type"),
 
   handler: async (args): Promise<void> => {
@@ -41,16 +46,18 @@ export const next: CommandModule<CliGlobalOptions, CliCommandOptions> = {
 export async function nextHandler({
   type,
   provider,
+  network = defaultNetwork,
   dir = defaultDir
 }: CliCommandOptions): Promise<string> {
-  const ethProvider = provider;
+  const ethProvider = provider || networks[network].rpc;
 
-  await verifyEthConnection(ethProvider);
+  await verifyEthConnection(ethProvider, network);
 
   // Execute command
   return await getNextVersionFromApm({
     type: type as ReleaseType,
     ethProvider,
+    network,
     dir
   });
 }
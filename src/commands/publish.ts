@@ -1,35 +1,82 @@
 import path from "path";
 import Listr from "listr";
 import chalk from "chalk";
+import { ethers } from "ethers";
 import { CommandModule } from "yargs";
 // Tasks
 import { buildAndUpload } from "../tasks/buildAndUpload";
+import { fetchRelease } from "../tasks/fetchRelease";
 import { generatePublishTx } from "../tasks/generatePublishTx";
+import { sendPublishTx } from "../tasks/sendPublishTx";
+import { generateUnsignedTx } from "../tasks/generateUnsignedTx";
+import { generateSafeTx } from "../tasks/generateSafeTx";
+import { verifyPublishPermissions } from "../tasks/verifyPublishPermissions";
+import { verifyPublishedVersion } from "../tasks/verifyPublishedVersion";
 import { createGithubRelease } from "../tasks/createGithubRelease";
 // Utils
 import { getCurrentLocalVersion } from "../utils/versions/getCurrentLocalVersion";
 import { increaseFromApmVersion } from "../utils/versions/increaseFromApmVersion";
 import { verifyEthConnection } from "../utils/verifyEthConnection";
-import { getInstallDnpLink, getPublishTxLink } from "../utils/getLinks";
-import { defaultComposeFileName, defaultDir, YargsError } from "../params";
-import { CliGlobalOptions, ReleaseType, releaseTypes, TxData } from "../types";
+import { parseTimeout } from "../utils/timeout";
+import { loadWallet } from "../utils/wallet";
+import {
+  getExplorerTxLink,
+  getInstallDnpLink,
+  getPublishTxLink
+} from "../utils/getLinks";
+import {
+  defaultComposeFileName,
+  defaultDir,
+  defaultNetwork,
+  defaultUploadRetries,
+  networks,
+  YargsError
+} from "../params";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Network,
+  networkNames,
+  ReleaseType,
+  releaseTypes,
+  SafeTxData,
+  TxData,
+  UnsignedTxData
+} from "../types";
 import { printObject } from "../utils/print";
-import { UploadTo } from "../releaseUploader";
+import { getTxDataToPrint } from "../utils/outputTxData";
+import { isIpfsNodeProvider, parseUploadTargets } from "../releaseUploader";
 
 const typesList = releaseTypes.join(" | ");
 
 interface CliCommandOptions extends CliGlobalOptions {
   type?: string;
   provider?: string;
-  eth_provider: string;
+  eth_provider?: string;
+  network?: Network;
   content_provider: string;
-  upload_to: UploadTo;
+  upload_to: string;
   developer_address?: string;
   timeout?: string;
+  upload_retries?: number;
+  verify_availability?: boolean;
+  gateway?: string;
   github_release?: boolean;
   dappnode_team_preset?: boolean;
   require_git_data?: boolean;
   delete_old_pins?: boolean;
+  ignore_size_limits?: boolean;
+  add_changelog?: boolean;
+  sign?: boolean;
+  keystore?: string;
+  confirmations?: number;
+  gas_margin?: number;
+  wait?: boolean;
+  wait_timeout?: string;
+  unsigned_tx?: boolean;
+  safe?: string;
+  forwarder?: string;
+  release_hash?: string;
 }
 
 export const publish: CommandModule<CliGlobalOptions, CliCommandOptions> = {
@@ -53,19 +100,23 @@ export const publish: CommandModule<CliGlobalOptions, CliCommandOptions> = {
         type: "string"
       })
       .option("eth_provider", {
-        description: `Specify an eth provider: "dappnode" (default), "infura", "localhost:5002"`,
-        default: "dappnode",
+        description: `Specify an eth provider: "dappnode", "infura", "localhost:5002". Defaults to the RPC of the network, "dappnode" for mainnet`,
         type: "string"
       })
+      .option("network", {
+        description: `Network of the APM registry to publish to`,
+        choices: networkNames,
+        default: defaultNetwork
+      })
       .option("content_provider", {
-        description: `Specify an ipfs provider: "dappnode" (default), "infura", "http://localhost:8545"`,
+        description: `Specify an ipfs provider: "dappnode" (default), "infura", "http://localhost:8545". Use a comma separated list to upload to several providers: "dappnode,pinata"`,
         default: "dappnode",
         type: "string"
       })
       .option("upload_to", {
-        description: `Specify where to upload the release`,
-        choices: ["ipfs", "swarm"],
-        default: "ipfs" as UploadTo
+        description: `Specify where to upload the release: "ipfs" (default), "swarm". All providers upload to this network`,
+        default: "ipfs",
+        type: "string"
       })
       .option("developer_address", {
         alias: "a",
@@ -78,6 +129,23 @@ export const publish: CommandModule<CliGlobalOptions, CliCommandOptions> = {
         default: "60min",
         type: "string"
       })
+      .option("upload_retries", {
+        description: `Max number of retries of failed upload requests`,
+        default: defaultUploadRetries,
+        type: "number"
+      })
+      .option("verify_availability", {
+        description: `After uploading, verify that all release files can be retrieved with the right size`,
+        type: "boolean"
+      })
+      .option("gateway", {
+        description: `IPFS gateway to verify the release availability. Defaults to "https://ipfs.io"`,
+        type: "string"
+      })
+      .option("release_hash", {
+        description: `Publish an existing release from its IPFS hash "/ipfs/Qm..." instead of building it. Its manifest must match the local name and the next version`,
+        type: "string"
+      })
       .option("github_release", {
         description: `Publish the release on the Github repo specified in the manifest. Requires a GITHUB_TOKEN ENV to authenticate`,
         type: "boolean"
@@ -85,35 +153,126 @@ export const publish: CommandModule<CliGlobalOptions, CliCommandOptions> = {
       .option("dappnode_team_preset", {
         description: `Specific set of options used for internal DAppNode releases. Caution: options may change without notice.`,
         type: "boolean"
+      })
+      .option("ignore_size_limits", {
+        description: `For testing only: do not enforce the max size of release files`,
+        type: "boolean"
+      })
+      .option("add_changelog", {
+        description: `Set manifest.changelog from the CHANGELOG.md or the git history since the last release`,
+        type: "boolean"
+      })
+      .option("sign", {
+        description: `Sign and broadcast the publish transaction with a wallet from --keystore or a PRIVATE_KEY ENV`,
+        type: "boolean"
+      })
+      .option("keystore", {
+        description: `Path to an encrypted JSON keystore to sign the publish transaction. The password can be provided with a KEYSTORE_PASSWORD ENV`,
+        type: "string"
+      })
+      .option("gas_margin", {
+        description: `Percentage added to the estimated gas limit of the publish transaction`,
+        default: 20,
+        type: "number"
+      })
+      .option("confirmations", {
+        description: `Number of confirmations to wait for after broadcasting the publish transaction`,
+        default: 1,
+        type: "number"
+      })
+      .option("unsigned_tx", {
+        description: `Output the publish transaction serialized and unsigned, to sign it offline. The nonce is fetched for --developer_address`,
+        type: "boolean"
+      })
+      .option("safe", {
+        description: `Address of a Safe that controls the repo. Outputs the publish transaction as a Safe Transaction Builder batch and its SafeTx hash`,
+        type: "string"
+      })
+      .option("forwarder", {
+        description: `Address of an Aragon forwarder (i.e. Voting or TokenManager) that holds the repo permission. The publish call is wrapped in an EVMScript to open a DAO vote`,
+        type: "string"
+      })
+      .option("wait", {
+        description: `Wait until APM serves the new version and verify its release hash. Requires --sign, not available with --forwarder`,
+        type: "boolean"
+      })
+      .option("wait_timeout", {
+        description: `Max time to wait for the new version with --wait: "15h", "20min 15s", "5000"`,
+        default: "60min",
+        type: "string"
       }),
 
   handler: async args => {
-    const { txData, nextVersion, releaseMultiHash } = await publishHanlder(
-      args
-    );
+    const {
+      txData,
+      nextVersion,
+      releaseMultiHash,
+      txHash,
+      unsignedTx,
+      safeTx
+    } = await publishHanlder(args);
 
-    if (!args.silent) {
-      const txDataToPrint = {
-        To: txData.to,
-        Value: txData.value,
-        Data: txData.data,
-        Gas: txData.gasLimit
-      };
+    if (!args.silent && txHash) {
+      console.log(`
+  ${chalk.green(`DNP (DAppNode Package) published (version ${nextVersion})`)} 
+  Release hash : ${releaseMultiHash}
+  Tx hash      : ${txHash}
+  ${getExplorerTxLink(args.network || defaultNetwork, txHash)}
+  ${getInstallDnpLink(releaseMultiHash)}
+  `);
+    } else if (!args.silent) {
+      const txDataToPrint = getTxDataToPrint(txData);
 
       console.log(`
   ${chalk.green(`DNP (DAppNode Package) published (version ${nextVersion})`)} 
   Release hash : ${releaseMultiHash}
   ${getInstallDnpLink(releaseMultiHash)}
   
-  ${"You must execute this transaction in mainnet to publish a new version of this DNP."}
+  ${`You must execute this transaction in ${args.network} to publish a new version of this DNP.`}
   
   ${chalk.gray(
-    printObject(txDataToPrint, (key, value) => `  ${key.padEnd(5)} : ${value}`)
+    printObject(txDataToPrint, (key, value) => `  ${key.padEnd(24)} : ${value}`)
   )}
   
   ${"You can also execute this transaction with Metamask by following this pre-filled link"}
   
   ${chalk.cyan(getPublishTxLink(txData))}
+  `);
+    }
+
+    if (!args.silent && txData.forwarder) {
+      console.log(`
+  ${chalk.bold(`Publishing through the Aragon forwarder ${txData.forwarder}`)}
+  ${`This transaction does not publish the new version directly, it opens a vote in the DAO:`}
+  ${`1. The sender must be allowed to forward, i.e. hold tokens of the DAO`}
+  ${`2. The DAO members vote the proposal`}
+  ${`3. If it passes, the vote is executed and calls the APM contract of ${txData.ensName}`}
+  ${`Then check the release with 'dappnodesdk verify-publish ${nextVersion}'`}
+  `);
+    }
+
+    if (!args.silent && safeTx) {
+      console.log(`
+  ${`Safe Transaction Builder batch for ${safeTx.safeAddress}, import it in the Safe UI`}
+
+  ${chalk.cyan(safeTx.batchPath)}
+  `);
+      if (safeTx.safeTxHash)
+        console.log(`  ${`SafeTx hash to sign with Safe nonce ${safeTx.nonce}`}
+
+  ${chalk.cyan(safeTx.safeTxHash)}
+  `);
+    }
+
+    if (!args.silent && unsignedTx) {
+      console.log(`
+  ${`Unsigned transaction from ${unsignedTx.from} with nonce ${unsignedTx.nonce}. Sign it offline and push it with 'dappnodesdk broadcast <signedTx>'`}
+
+  ${chalk.cyan(unsignedTx.serialized)}
+
+  ${"EIP-681 URI"}
+
+  ${chalk.cyan(unsignedTx.uri)}
   `);
     }
   }
@@ -126,14 +285,30 @@ export async function publishHanlder({
   type,
   provider,
   eth_provider,
+  network = defaultNetwork,
   content_provider,
   developer_address,
   timeout,
+  upload_retries,
+  verify_availability,
+  gateway,
   upload_to,
   github_release,
   dappnode_team_preset,
   require_git_data,
   delete_old_pins,
+  ignore_size_limits,
+  add_changelog,
+  sign,
+  keystore,
+  confirmations,
+  gas_margin,
+  wait,
+  wait_timeout,
+  unsigned_tx,
+  safe,
+  forwarder,
+  release_hash,
   // Global options
   dir = defaultDir,
   compose_file_name = defaultComposeFileName,
@@ -143,17 +318,22 @@ export async function publishHanlder({
   txData: TxData;
   nextVersion: string;
   releaseMultiHash: string;
+  txHash?: string;
+  unsignedTx?: UnsignedTxData;
+  safeTx?: SafeTxData;
 }> {
   // Parse optionsalias: "release",
-  let ethProvider = provider || eth_provider;
+  let ethProvider = provider || eth_provider || networks[network].rpc;
   let contentProvider = provider || content_provider;
   let uploadTo = upload_to;
   let githubRelease = Boolean(github_release);
-  const developerAddress = developer_address || process.env.DEVELOPER_ADDRESS;
+  let developerAddress = developer_address || process.env.DEVELOPER_ADDRESS;
   const userTimeout = timeout;
   const composeFileName = compose_file_name;
   const requireGitData = require_git_data;
   const deleteOldPins = delete_old_pins;
+  const ignoreSizeLimits = ignore_size_limits;
+  const addChangelog = add_changelog;
 
   const isCi = process.env.CI;
   const tag = process.env.TRAVIS_TAG || process.env.GITHUB_REF;
@@ -165,7 +345,8 @@ export async function publishHanlder({
    */
   if (dappnode_team_preset) {
     if (isCi) {
-      ethProvider = "infura";
+      // The Infura endpoint is only for mainnet
+      if (network === "mainnet") ethProvider = "infura";
       contentProvider = "http://ipfs.dappnode.io";
       uploadTo = "ipfs";
       // Activate verbose to see logs easier afterwards
@@ -195,7 +376,40 @@ export async function publishHanlder({
       `Invalid release type "${type}", must be: ${typesList}`
     );
 
-  await verifyEthConnection(ethProvider);
+  if ([sign, unsigned_tx, safe].filter(Boolean).length > 1)
+    throw new YargsError(`--sign, --unsigned_tx and --safe are incompatible`);
+  if (safe && !ethers.utils.isAddress(safe))
+    throw new YargsError(`Invalid --safe address ${safe}`);
+  if (forwarder && !ethers.utils.isAddress(forwarder))
+    throw new YargsError(`Invalid --forwarder address ${forwarder}`);
+  const uploadTargets = parseUploadTargets({ uploadTo, contentProvider });
+  if (release_hash && uploadTargets[0].uploadTo !== "ipfs")
+    throw new YargsError(`--release_hash only supports IPFS releases`);
+  // All targets have the same release, fetch it from any IPFS node API
+  const fetchTarget = uploadTargets.find(target =>
+    isIpfsNodeProvider(target.contentProvider)
+  );
+  if (release_hash && !fetchTarget)
+    throw new YargsError(
+      `--release_hash requires an IPFS node provider to fetch the release, pinata and pinning services can't serve files`
+    );
+  // Without --sign the tx is only printed after the publish tasks finish
+  if (wait && (!sign || forwarder))
+    throw new YargsError(
+      `--wait requires --sign and is incompatible with --forwarder, otherwise the tx is executed later. Run verify-publish --wait once the tx is sent instead`
+    );
+  if (unsigned_tx && !developerAddress)
+    throw new YargsError(
+      `--unsigned_tx requires the address that will sign the tx with --developer_address`
+    );
+
+  await verifyEthConnection(ethProvider, network);
+
+  // Load the wallet before running the tasks, it may prompt for a password
+  const wallet = sign ? await loadWallet({ keystorePath: keystore }) : null;
+  // The signer controls the repo if it has to be created
+  if (wallet && !developerAddress) developerAddress = wallet.address;
+  if (safe && !developerAddress) developerAddress = safe;
 
   const publishTasks = new Listr(
     [
@@ -208,6 +422,7 @@ export async function publishHanlder({
             nextVersion = await increaseFromApmVersion({
               type: type as ReleaseType,
               ethProvider,
+              network,
               dir,
               composeFileName
             });
@@ -222,26 +437,63 @@ export async function publishHanlder({
         }
       },
 
-      // 2. Build and upload
+      // 2. Verify publish permissions
+      // Checked before building to fail fast if the tx would revert
       {
-        title: "Build and upload",
+        title: "Verify publish permissions",
+        skip: () =>
+          forwarder && `Permissions are enforced by the forwarder ${forwarder}`,
+        task: () =>
+          verifyPublishPermissions({
+            dir,
+            ethProvider,
+            network,
+            developerAddress,
+            signerAddress: wallet ? wallet.address : undefined,
+            safeAddress: safe,
+            verbose,
+            silent
+          })
+      },
+
+      // 3. Build and upload, or use an existing release
+      {
+        title: release_hash ? "Fetch existing release" : "Build and upload",
         task: ctx =>
-          new Listr(
-            buildAndUpload({
-              dir,
-              composeFileName,
-              buildDir: ctx.buildDir,
-              contentProvider,
-              uploadTo,
-              userTimeout,
-              requireGitData,
-              deleteOldPins
-            }),
-            { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
-          )
+          release_hash
+            ? fetchRelease({
+                dir,
+                releaseHash: release_hash,
+                contentProvider: (fetchTarget || uploadTargets[0])
+                  .contentProvider,
+                // Github releases upload the release files as assets
+                downloadFiles: githubRelease,
+                verbose,
+                silent
+              })
+            : new Listr(
+                buildAndUpload({
+                  dir,
+                  composeFileName,
+                  buildDir: ctx.buildDir,
+                  contentProvider,
+                  uploadTo,
+                  uploadRetries: upload_retries,
+                  verifyAvailability: verify_availability,
+                  gatewayUrl: gateway,
+                  userTimeout,
+                  requireGitData,
+                  deleteOldPins,
+                  ignoreSizeLimits,
+                  addChangelog
+                }),
+                {
+                  renderer: verbose ? "verbose" : silent ? "silent" : "default"
+                }
+              )
       },
 
-      // 3. Generate transaction
+      // 4. Generate transaction
       {
         title: "Generate transaction",
         task: ctx =>
@@ -251,12 +503,86 @@ export async function publishHanlder({
             releaseMultiHash: ctx.releaseMultiHash,
             developerAddress,
             ethProvider,
+            network,
+            gasMargin: gas_margin,
+            forwarderAddress: forwarder,
+            verbose,
+            silent
+          })
+      },
+
+      // 5. Sign and broadcast transaction
+      // [ONLY] if a wallet is available
+      {
+        title: "Send transaction",
+        enabled: () => Boolean(wallet),
+        task: () => {
+          if (!wallet) throw Error("No wallet to sign the transaction");
+          return sendPublishTx({
+            dir,
+            wallet,
+            ethProvider,
+            network,
+            confirmations,
+            verbose,
+            silent
+          });
+        }
+      },
+
+      // 6. Export the unsigned transaction to sign it offline
+      // [ONLY] if requested
+      {
+        title: "Export unsigned transaction",
+        enabled: () => Boolean(unsigned_tx),
+        task: () => {
+          if (!developerAddress) throw Error("No address to get the nonce");
+          return generateUnsignedTx({
+            from: developerAddress,
+            ethProvider,
+            network,
+            verbose,
+            silent
+          });
+        }
+      },
+
+      // 7. Export the transaction for a Safe
+      // [ONLY] if requested
+      {
+        title: "Export Safe transaction",
+        enabled: () => Boolean(safe),
+        task: () => {
+          if (!safe) throw Error("No Safe address");
+          return generateSafeTx({
+            dir,
+            safeAddress: safe,
+            ethProvider,
+            network,
+            verbose,
+            silent
+          });
+        }
+      },
+
+      // 8. Wait for the new version in APM
+      // [ONLY] if requested
+      {
+        title: "Verify published version",
+        enabled: () => Boolean(wait),
+        task: ctx =>
+          verifyPublishedVersion<ListrContextBuildAndPublish>({
+            dir,
+            ethProvider,
+            network,
+            version: ctx.nextVersion,
+            timeout: parseTimeout(wait_timeout),
             verbose,
             silent
           })
       },
 
-      // 4. Create github release
+      // 9. Create github release
       // [ONLY] add the Release task if requested
       {
         title: "Release on github",
@@ -276,6 +602,20 @@ export async function publishHanlder({
   );
 
   const tasksFinalCtx = await publishTasks.run();
-  const { txData, nextVersion, releaseMultiHash } = tasksFinalCtx;
-  return { txData, nextVersion, releaseMultiHash };
+  const {
+    txData,
+    nextVersion,
+    releaseMultiHash,
+    txHash,
+    unsignedTx,
+    safeTx
+  } = tasksFinalCtx;
+  return {
+    txData,
+    nextVersion,
+    releaseMultiHash,
+    txHash,
+    unsignedTx,
+    safeTx
+  };
 }
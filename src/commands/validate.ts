@@ -0,0 +1,156 @@
+import path from "path";
+import chalk from "chalk";
+import { CommandModule } from "yargs";
+import { CliGlobalOptions } from "../types";
+import { defaultComposeFileName, defaultDir, releaseFiles } from "../params";
+import { readManifest } from "../utils/manifest";
+import { readCompose, updateComposeImageTags } from "../utils/compose";
+import {
+  findReleaseFiles,
+  verifyReleaseFileSize
+} from "../utils/copyReleaseFile";
+import { validateManifestSchema } from "../utils/validateManifestSchema";
+import { getManifestReleaseErrors } from "../utils/validateManifest";
+import { validateManifestWithCompose } from "../utils/validateManifestWithCompose";
+import { getComposeErrors } from "../utils/validateCompose";
+import { getSetupWizardErrors } from "../utils/validateSetupWizard";
+import { readSetupWizardIfExists } from "../utils/setupWizard";
+import { parseArchitectures } from "../utils/parseArchitectures";
+import { verifyAvatar } from "../utils/verifyAvatar";
+
+interface CliCommandOptions extends CliGlobalOptions {
+  json?: boolean;
+}
+
+export interface ValidationError {
+  /** "dappnode_package.json", file the error belongs to */
+  file: string;
+  message: string;
+}
+
+export const validate: CommandModule<CliGlobalOptions, CliCommandOptions> = {
+  command: "validate",
+  describe:
+    "Validate the package files without building, does not require Docker or network access",
+
+  builder: {
+    json: {
+      description: `Print the result as JSON`,
+      type: "boolean"
+    }
+  },
+
+  handler: async (args): Promise<void> => {
+    const { valid, errors } = await validateHandler(args);
+
+    if (!valid) process.exitCode = 1;
+
+    if (args.json) {
+      return console.log(JSON.stringify({ valid, errors }, null, 2));
+    }
+
+    if (valid) {
+      return console.log(chalk.green("\nDNP (DAppNode Package) is valid\n"));
+    }
+
+    console.log(`
+  ${chalk.red(`DNP (DAppNode Package) has ${errors.length} error(s)`)}
+${errors.map(({ file, message }) => `  - ${file}: ${message}`).join("\n")}
+`);
+  }
+};
+
+/**
+ * Common handler for CLI and programatic usage.
+ * Runs all checks and collects the errors instead of stopping at the first one
+ */
+export async function validateHandler({
+  dir = defaultDir,
+  compose_file_name = defaultComposeFileName
+}: CliCommandOptions): Promise<{ valid: boolean; errors: ValidationError[] }> {
+  const errors: ValidationError[] = [];
+  const composeFileName = compose_file_name;
+
+  function pushErrors(file: string, messages: string[]): void {
+    for (const message of messages) errors.push({ file, message });
+  }
+  function tryCheck<T>(file: string, check: () => T): T | null {
+    try {
+      return check();
+    } catch (e) {
+      pushErrors(file, [e.message.trim()]);
+      return null;
+    }
+  }
+
+  // Release files naming, multiplicity and size
+  const foundFiles: { [fileId: string]: string[] } = {};
+  for (const [fileId, fileConfig] of Object.entries(releaseFiles)) {
+    tryCheck(fileId, () => {
+      foundFiles[fileId] = findReleaseFiles({ ...fileConfig, id: fileId }, dir);
+      for (const file of foundFiles[fileId])
+        tryCheck(file, () =>
+          verifyReleaseFileSize(
+            { ...fileConfig, id: fileId },
+            path.join(dir, file)
+          )
+        );
+    });
+  }
+
+  const manifestRes = tryCheck("manifest", () => readManifest({ dir }));
+  const compose = tryCheck(composeFileName, () =>
+    readCompose({ dir, composeFileName })
+  );
+
+  if (manifestRes) {
+    const { manifest, format } = manifestRes;
+    const manifestFile =
+      (foundFiles.manifest || [])[0] || `dappnode_package.${format}`;
+    pushErrors(manifestFile, getManifestReleaseErrors(manifest));
+    const { valid, errors: schemaErrors } = validateManifestSchema(manifest);
+    pushErrors(manifestFile, schemaErrors);
+
+    const { architectures } = manifest;
+    // Also checked by validateManifestWithCompose, don't report it twice
+    if (architectures && !(valid && compose))
+      tryCheck(manifestFile, () => parseArchitectures(architectures));
+
+    if (compose) {
+      // Validate the compose as it will be published in the release
+      const composeForRelease = updateComposeImageTags(compose, manifest, {
+        editExternalImages: true
+      });
+      pushErrors(
+        composeFileName,
+        getComposeErrors(composeForRelease, {
+          isCore: manifest.type === "dncore"
+        })
+      );
+      // Semantic checks assume the manifest has the shape of the schema
+      if (valid)
+        pushErrors(
+          manifestFile,
+          validateManifestWithCompose(manifest, composeForRelease).errors
+        );
+    }
+  } else if (compose) {
+    pushErrors(composeFileName, getComposeErrors(compose));
+  }
+
+  if (compose) {
+    const setupWizardFile = (foundFiles.setupWizard || [])[0] || "setupWizard";
+    const setupWizard = tryCheck(setupWizardFile, () =>
+      readSetupWizardIfExists(dir)
+    );
+    if (setupWizard)
+      tryCheck(setupWizardFile, () =>
+        pushErrors(setupWizardFile, getSetupWizardErrors(setupWizard, compose))
+      );
+  }
+
+  for (const avatarFile of foundFiles.avatar || [])
+    tryCheck(avatarFile, () => verifyAvatar(path.join(dir, avatarFile)));
+
+  return { valid: errors.length === 0, errors };
+}
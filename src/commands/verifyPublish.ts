@@ -0,0 +1,96 @@
+import chalk from "chalk";
+import { CommandModule } from "yargs";
+import { verifyPublishedVersion } from "../tasks/verifyPublishedVersion";
+import { readManifest } from "../utils/manifest";
+import { readReleaseRecord } from "../utils/releaseRecord";
+import { parseTimeout } from "../utils/timeout";
+import { verifyEthConnection } from "../utils/verifyEthConnection";
+import { CliGlobalOptions, Network, networkNames } from "../types";
+import { defaultDir, defaultNetwork, networks } from "../params";
+
+interface CliCommandOptions extends CliGlobalOptions {
+  version?: string;
+  eth_provider?: string;
+  network?: Network;
+  wait?: boolean;
+  timeout?: string;
+}
+
+export const verifyPublish: CommandModule<
+  CliGlobalOptions,
+  CliCommandOptions
+> = {
+  command: "verify-publish [version]",
+  describe:
+    "Verify that APM serves a version with the release hash in releases.json",
+
+  builder: yargs =>
+    yargs
+      .positional("version", {
+        description: "Version to verify, defaults to the manifest version",
+        type: "string"
+      })
+      .option("eth_provider", {
+        description: `Specify an eth provider: "dappnode", "infura", "localhost:5002". Defaults to the RPC of the network, "dappnode" for mainnet`,
+        type: "string"
+      })
+      .option("network", {
+        description: `Network of the APM registry`,
+        choices: networkNames,
+        default: defaultNetwork
+      })
+      .option("wait", {
+        description: "Wait until the version is published",
+        type: "boolean"
+      })
+      .option("timeout", {
+        alias: "t",
+        description: `Max time to wait for the version with --wait: "15h", "20min 15s", "5000"`,
+        default: "60min",
+        type: "string"
+      }),
+
+  handler: async (args): Promise<void> => {
+    const { version, contentURI } = await verifyPublishHandler(args);
+    if (!args.silent)
+      console.log(`
+  ${chalk.green(`Version ${version} is published in APM`)}
+  Release hash : ${contentURI}
+  `);
+  }
+};
+
+/**
+ * Common handler for CLI and programatic usage
+ */
+export async function verifyPublishHandler({
+  version,
+  eth_provider,
+  network = defaultNetwork,
+  wait,
+  timeout,
+  // Global options
+  dir = defaultDir,
+  silent,
+  verbose
+}: CliCommandOptions): Promise<{ version: string; contentURI: string }> {
+  const ethProvider = eth_provider || networks[network].rpc;
+  if (!version) version = readManifest({ dir }).manifest.version;
+
+  await verifyEthConnection(ethProvider, network);
+
+  const verifyTasks = verifyPublishedVersion<unknown>({
+    dir,
+    ethProvider,
+    network,
+    version,
+    timeout: wait ? parseTimeout(timeout) : undefined,
+    verbose,
+    silent
+  });
+  await verifyTasks.run();
+
+  // Verified to be equal to the contentURI in APM
+  const { hash } = readReleaseRecord(dir, version);
+  return { version, contentURI: hash };
+}
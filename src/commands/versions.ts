@@ -0,0 +1,106 @@
+import chalk from "chalk";
+import { CommandModule } from "yargs";
+import { Apm, ApmVersionWithBlock } from "../utils/Apm";
+import { readManifest } from "../utils/manifest";
+import { readReleaseRecords } from "../utils/releaseRecord";
+import { verifyEthConnection } from "../utils/verifyEthConnection";
+import { CliGlobalOptions, Network, networkNames } from "../types";
+import { defaultDir, defaultNetwork, networks } from "../params";
+
+interface CliCommandOptions extends CliGlobalOptions {
+  name?: string;
+  eth_provider?: string;
+  network?: Network;
+  json?: boolean;
+}
+
+export interface PublishedVersion extends ApmVersionWithBlock {
+  /** True if the contentURI is recorded in the local releases.json */
+  inReleasesJson: boolean;
+}
+
+export const versions: CommandModule<CliGlobalOptions, CliCommandOptions> = {
+  command: "versions [name]",
+  describe: "List all versions published in the APM repo of the package",
+
+  builder: yargs =>
+    yargs
+      .positional("name", {
+        description: "ENS name of the repo, defaults to the manifest name",
+        type: "string"
+      })
+      .option("eth_provider", {
+        description: `Specify an eth provider: "dappnode", "infura", "localhost:5002". Defaults to the RPC of the network, "dappnode" for mainnet`,
+        type: "string"
+      })
+      .option("network", {
+        description: `Network of the APM registry`,
+        choices: networkNames,
+        default: defaultNetwork
+      })
+      .option("json", {
+        description: "Print the versions as JSON",
+        type: "boolean"
+      }),
+
+  handler: async (args): Promise<void> => {
+    const publishedVersions = await versionsHandler(args);
+
+    if (args.json) {
+      console.log(JSON.stringify(publishedVersions, null, 2));
+    } else if (!args.silent) {
+      console.log(printVersionsTable(publishedVersions));
+    }
+  }
+};
+
+/**
+ * Common handler for CLI and programatic usage
+ */
+export async function versionsHandler({
+  name,
+  eth_provider,
+  network = defaultNetwork,
+  // Global options
+  dir = defaultDir
+}: CliCommandOptions): Promise<PublishedVersion[]> {
+  const ethProvider = eth_provider || networks[network].rpc;
+  const ensName = name || readManifest({ dir }).manifest.name;
+
+  await verifyEthConnection(ethProvider, network);
+
+  const apm = new Apm(ethProvider, network);
+  const apmVersions = await apm.getVersions(ensName);
+
+  // releases.json only exists when running in the package directory
+  const releaseRecords = readReleaseRecords(dir);
+  const localHashes = new Set(
+    Object.values(releaseRecords).map(({ hash }) => hash)
+  );
+
+  return apmVersions.map(version => ({
+    ...version,
+    inReleasesJson: localHashes.has(version.contentURI)
+  }));
+}
+
+function printVersionsTable(publishedVersions: PublishedVersion[]): string {
+  const header = ["Version", "Content URI", "Block", "Date", "releases.json"];
+  const rows = publishedVersions.map(
+    ({ version, contentURI, blockNumber, timestamp, inReleasesJson }) => [
+      version,
+      contentURI,
+      blockNumber ? String(blockNumber) : "-",
+      timestamp ? new Date(timestamp * 1000).toISOString() : "-",
+      inReleasesJson ? "yes" : "no"
+    ]
+  );
+
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map(row => row[i].length))
+  );
+  const printRow = (row: string[]): string =>
+    row.map((cell, i) => cell.padEnd(widths[i])).join("  ");
+
+  return [chalk.bold(printRow(header)), ...rows.map(printRow)].join("\n");
+}
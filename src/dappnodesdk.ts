@@ -5,12 +5,16 @@ import chalk from "chalk";
 import figlet from "figlet";
 import dotenv from "dotenv";
 
+import { broadcast } from "./commands/broadcast";
 import { build } from "./commands/build";
 import { fromGithub } from "./commands/from_github";
 import { increase } from "./commands/increase";
 import { init } from "./commands/init";
 import { next } from "./commands/next";
 import { publish } from "./commands/publish";
+import { validate } from "./commands/validate";
+import { verifyPublish } from "./commands/verifyPublish";
+import { versions } from "./commands/versions";
 import { githubActions } from "./commands/githubActions";
 
 // "source-map-support" MUST be imported for stack traces to work properly after Typescript transpile -
@@ -51,12 +55,16 @@ const dappnodesdk = yargs
       type: "boolean"
     }
   })
+  .command(broadcast)
   .command(build)
   .command(fromGithub)
   .command(increase)
   .command(init)
   .command(next)
   .command(publish)
+  .command(validate)
+  .command(verifyPublish)
+  .command(versions)
   .command(githubActions);
 
 dappnodesdk.alias("h", "help");
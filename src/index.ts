@@ -1,15 +1,23 @@
+import { broadcastHandler } from "./commands/broadcast";
 import { buildHandler } from "./commands/build";
 import { fromGithubHandler } from "./commands/from_github";
 import { increaseHandler } from "./commands/increase";
 import { initHandler } from "./commands/init";
 import { nextHandler } from "./commands/next";
 import { publishHanlder } from "./commands/publish";
+import { validateHandler } from "./commands/validate";
+import { verifyPublishHandler } from "./commands/verifyPublish";
+import { versionsHandler } from "./commands/versions";
 
 export const dappnodesdk = {
+  broadcast: broadcastHandler,
   build: buildHandler,
   fromGithub: fromGithubHandler,
   increase: increaseHandler,
   init: initHandler,
   next: nextHandler,
-  publish: publishHanlder
+  publish: publishHanlder,
+  validate: validateHandler,
+  verifyPublish: verifyPublishHandler,
+  versions: versionsHandler
 };
@@ -1,4 +1,10 @@
-import { Architecture, FileFormat, ManifestFormat } from "./types";
+import {
+  Architecture,
+  FileFormat,
+  ManifestFormat,
+  Network,
+  NetworkConfig
+} from "./types";
 
 export class CliError extends Error {}
 export class YargsError extends Error {}
@@ -7,6 +13,37 @@ export class YargsError extends Error {}
 
 export const branchNameRoot = "dappnodebot/bump-upstream/";
 
+// Network params
+
+export const defaultNetwork: Network = "mainnet";
+export const networks: { [N in Network]: NetworkConfig } = {
+  mainnet: {
+    chainId: 1,
+    rpc: "dappnode",
+    ensRegistry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+    explorer: "https://etherscan.io"
+  },
+  sepolia: {
+    chainId: 11155111,
+    rpc: "https://rpc.sepolia.org",
+    ensRegistry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+    explorer: "https://sepolia.etherscan.io"
+  },
+  gnosis: {
+    chainId: 100,
+    rpc: "https://rpc.gnosischain.com",
+    // No APM registry is deployed by default, set APM_REGISTRY_ADDRESS
+    apmRegistries: {},
+    explorer: "https://gnosisscan.io"
+  },
+  // Any chain, i.e. a local devnet or a mainnet fork
+  // Set APM_REGISTRY_ADDRESS to the APM registry of the chain
+  custom: {
+    rpc: "http://localhost:8545",
+    apmRegistries: {}
+  }
+};
+
 // DAppNode params
 
 export const defaultDir = "./";
@@ -17,6 +54,8 @@ export const publishTxAppUrl = "https://dappnode.github.io/sdk-publish/";
 export const UPSTREAM_VERSION_VARNAME = "UPSTREAM_VERSION";
 export const upstreamImageLabel = "dappnode.dnp.upstreamImage";
 export const PINATA_URL = "https://api.pinata.cloud";
+export const defaultUploadRetries = 3;
+export const defaultIpfsGateway = "https://ipfs.io";
 
 /**
  * Plain text file with should contain the IPFS hash of the release
@@ -304,6 +304,19 @@ export class Github {
     });
   }
 
+  /**
+   * Get the title of a Pull Request
+   * @param number Pull Request number #45
+   */
+  async getPullRequestTitle(number: number): Promise<string> {
+    const pr = await this.octokit.pulls.get({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: number
+    });
+    return pr.data.title;
+  }
+
   /**
    * Returns open PRs where head branch equals `branch`
    * Only branches and PRs originating from the same repo
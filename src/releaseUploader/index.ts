@@ -1,13 +1,19 @@
 import { CliError } from "../params";
 import { IReleaseUploader } from "./interface";
+import { PinataMetadata } from "./pinata/PinataSDK";
 import { ReleaseUploaderIpfsNode } from "./ipfsNode";
 import { ReleaseUploaderIpfsPinata } from "./pinata";
 import { ReleaseUploaderSwarmNode } from "./swarmNode";
+import {
+  ReleaseUploaderIpfsPinningService,
+  pinningServicePrefix
+} from "./pinningService";
 
 export * from "./interface";
 export * from "./errors";
 
 export type UploadTo = "ipfs" | "swarm";
+const uploadTos: UploadTo[] = ["ipfs", "swarm"];
 
 export type ReleaseUploaderProvider =
   | {
@@ -21,10 +27,18 @@ export type ReleaseUploaderProvider =
       apiKey: string;
       secretApiKey: string;
     }
+  | {
+      network: "ipfs";
+      type: "pinningService";
+      serviceUrl: string;
+      accessToken: string;
+      ipfsProvider: string;
+    }
   | {
       network: "swarm";
       type: "node";
       swarmProvider: string;
+      postageBatchId: string;
     };
 
 export function getReleaseUploader(
@@ -37,6 +51,8 @@ export function getReleaseUploader(
           return new ReleaseUploaderIpfsNode(provider);
         case "pinata":
           return new ReleaseUploaderIpfsPinata(provider);
+        case "pinningService":
+          return new ReleaseUploaderIpfsPinningService(provider);
         default:
           throw new ErrorUnknownProvider(provider);
       }
@@ -84,6 +100,21 @@ export function cliArgsToReleaseUploaderProvider({
           apiKey: PINATA_API_KEY,
           secretApiKey: PINATA_SECRET_API_KEY
         };
+      } else if (contentProvider.startsWith(pinningServicePrefix)) {
+        // "pinning-service:https://api.pinning-service.io/psa"
+        const {
+          PINNING_SERVICE_ACCESS_TOKEN,
+          PINNING_SERVICE_IPFS_PROVIDER
+        } = process.env;
+        if (!PINNING_SERVICE_ACCESS_TOKEN)
+          throw new CliError("Must provide PINNING_SERVICE_ACCESS_TOKEN");
+        return {
+          network: "ipfs",
+          type: "pinningService",
+          serviceUrl: contentProvider.slice(pinningServicePrefix.length),
+          accessToken: PINNING_SERVICE_ACCESS_TOKEN,
+          ipfsProvider: PINNING_SERVICE_IPFS_PROVIDER || "dappnode"
+        };
       } else {
         return {
           network: "ipfs",
@@ -92,14 +123,138 @@ export function cliArgsToReleaseUploaderProvider({
         };
       }
 
-    case "swarm":
+    case "swarm": {
+      const { SWARM_POSTAGE_BATCH_ID } = process.env;
+      if (!SWARM_POSTAGE_BATCH_ID)
+        throw new CliError("Must provide SWARM_POSTAGE_BATCH_ID");
       return {
         network: "swarm",
         type: "node",
-        swarmProvider: contentProvider
+        swarmProvider: contentProvider,
+        postageBatchId: SWARM_POSTAGE_BATCH_ID
       };
+    }
 
     default:
       throw new CliError(`Unknown upload_to value '${uploadTo}'`);
   }
 }
+
+/**
+ * Parses the comma separated lists of `--upload_to` and `--provider` into
+ * upload targets. A single value applies to every item of the other list
+ * @param uploadTo "ipfs"
+ * @param contentProvider "dappnode,pinata"
+ * @returns [{ uploadTo: "ipfs", contentProvider: "dappnode" }, { uploadTo: "ipfs", contentProvider: "pinata" }]
+ */
+export function parseUploadTargets({
+  uploadTo,
+  contentProvider
+}: {
+  uploadTo: string;
+  contentProvider: string;
+}): { uploadTo: UploadTo; contentProvider: string }[] {
+  const networks = splitList(uploadTo) as UploadTo[];
+  const contentProviders = splitList(contentProvider);
+  const count = Math.max(networks.length, contentProviders.length);
+
+  for (const network of networks)
+    if (!uploadTos.includes(network))
+      throw new CliError(
+        `Unknown upload_to value '${network}', must be one of: ${uploadTos.join(
+          ", "
+        )}`
+      );
+
+  if (count === 0) throw new CliError("Must provide an upload target");
+  if (
+    (networks.length !== 1 && networks.length !== count) ||
+    (contentProviders.length !== 1 && contentProviders.length !== count)
+  )
+    throw new CliError(
+      `upload_to '${uploadTo}' and provider '${contentProvider}' must have the same number of items`
+    );
+
+  const targets = Array.from({ length: count }, (_, i) => ({
+    uploadTo: networks[networks.length === 1 ? 0 : i],
+    contentProvider: contentProviders[contentProviders.length === 1 ? 0 : i]
+  }));
+
+  // The hashes of each network are not comparable
+  if (new Set(targets.map(target => target.uploadTo)).size > 1)
+    throw new CliError(
+      `Can't upload to different networks in the same build: ${uploadTo}`
+    );
+
+  return targets;
+}
+
+export interface UploadTarget {
+  /** Provider URL without credentials, to print and record it */
+  location: string;
+  provider: ReleaseUploaderProvider;
+  releaseUploader: IReleaseUploader;
+}
+
+/**
+ * Uploads a release to all targets in parallel
+ * @param onProgress Progress of each target, in the order of `targets`
+ * @returns "/ipfs/Qm...", throws if the targets return different hashes
+ */
+export async function uploadToTargets(
+  targets: UploadTarget[],
+  {
+    dirPath,
+    metadata,
+    retries,
+    onProgress
+  }: {
+    dirPath: string;
+    metadata: PinataMetadata;
+    retries?: number;
+    onProgress?: (percents: number[]) => void;
+  }
+): Promise<string> {
+  const percents = targets.map(() => 0);
+  const hashes = await Promise.all(
+    targets.map(({ releaseUploader }, i) =>
+      releaseUploader.addFromFs({
+        dirPath,
+        metadata,
+        retries,
+        onProgress: percent => {
+          percents[i] = percent;
+          if (onProgress) onProgress(percents);
+        }
+      })
+    )
+  );
+
+  if (new Set(hashes).size > 1)
+    throw new CliError(
+      `Upload targets returned different release hashes:\n${targets
+        .map(({ location }, i) => `  ${location}: ${hashes[i]}`)
+        .join("\n")}`
+    );
+
+  return hashes[0];
+}
+
+/**
+ * Returns true if `contentProvider` is an IPFS node API, that can list and
+ * fetch files. Pinata and Pinning Services can only pin
+ * @param contentProvider "dappnode", "http://localhost:5001", "pinata"
+ */
+export function isIpfsNodeProvider(contentProvider: string): boolean {
+  return (
+    contentProvider !== "pinata" &&
+    !contentProvider.startsWith(pinningServicePrefix)
+  );
+}
+
+function splitList(list: string): string[] {
+  return list
+    .split(",")
+    .map(item => item.trim())
+    .filter(Boolean);
+}
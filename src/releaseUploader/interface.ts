@@ -15,6 +15,8 @@ export interface IReleaseUploader {
     dirPath: string;
     metadata: PinataMetadata;
     onProgress?: (percent: number) => void;
+    /** Max number of retries of failed requests */
+    retries?: number;
   }): Promise<string>;
 
   /**
@@ -1,7 +1,7 @@
 import got from "got";
 import FormData from "form-data";
 import request from "request";
-import { normalizeIpfsProvider } from "./ipfsProvider";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
 
 /**
  * Streams a list of file download urls, uploading them to IPFS as a directory
@@ -32,7 +32,7 @@ export async function ipfsAddDirFromUrls(
     prefixUrl: normalizeIpfsProvider(ipfsProvider),
     url: "api/v0/add",
     method: "POST",
-    headers: form.getHeaders(),
+    headers: form.getHeaders(getIpfsProviderHeaders(ipfsProvider)),
     body: form
   });
 
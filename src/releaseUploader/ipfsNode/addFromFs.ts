@@ -1,47 +1,237 @@
-import got from "got";
-import { normalizeIpfsProvider } from "./ipfsProvider";
+import fs from "fs";
+import path from "path";
+import got, { HTTPError } from "got";
+import { URLSearchParams } from "url";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
 import { getFormDataFileUpload } from "../utils/formDataFileUpload";
+import { traverseDir } from "../utils/traverseDir";
+import { retryUpload } from "../utils/retryUpload";
+import { computeIpfsHash } from "../../utils/ipfsHash";
+import { defaultUploadRetries } from "../../params";
+
+interface IpfsApi {
+  prefixUrl: string;
+  headers: { [header: string]: string };
+}
+
+interface IpfsApiObjectResponse {
+  Hash: string;
+}
+
+/**
+ * Uploads in progress by node and path. Targets that add to the same node,
+ * i.e. `dappnode` and a pinning service with the default
+ * PINNING_SERVICE_IPFS_PROVIDER, share a single upload
+ */
+const pendingUploads = new Map<
+  string,
+  { upload: Promise<string>; listeners: ((percent: number) => void)[] }
+>();
 
 /**
  * Uploads a directory or file from the fs
+ * Files are uploaded one by one and then linked into the directory with
+ * `object patch`, so a failed upload only retries the current file.
+ * Each file is pinned until the directory is pinned, so the node does not
+ * garbage collect them meanwhile. Files already pinned by a previous run
+ * are not uploaded again. Concurrent uploads of the same path to the same node
+ * are done once
  * @param dirOrFile "docs"
  * @param ipfsProvider "dappnode" | "http://localhost:5001"
  * @param onProgress Report upload progress, 0.4631
+ * @param retries Max number of retries of each request
  * @returns "/ipfs/Qm..."
  */
 export async function ipfsAddFromFs(
   dirOrFilePath: string,
   ipfsProvider: string,
-  onProgress?: (percent: number) => void
+  onProgress?: (percent: number) => void,
+  retries = defaultUploadRetries
 ): Promise<string> {
-  // Create form and append all files recursively
-  const form = getFormDataFileUpload(dirOrFilePath);
-
   // Parse the ipfsProvider the a full base apiUrl
+  const api: IpfsApi = {
+    prefixUrl: normalizeIpfsProvider(ipfsProvider),
+    headers: getIpfsProviderHeaders(ipfsProvider)
+  };
+
+  const key = `${api.prefixUrl} ${path.resolve(dirOrFilePath)}`;
+  const pending = pendingUploads.get(key);
+  if (pending) {
+    if (onProgress) pending.listeners.push(onProgress);
+    return await pending.upload;
+  }
+
+  const listeners = onProgress ? [onProgress] : [];
+  const upload = uploadFromFs(
+    api,
+    dirOrFilePath,
+    percent => listeners.forEach(listener => listener(percent)),
+    retries
+  );
+  pendingUploads.set(key, { upload, listeners });
+  try {
+    return await upload;
+  } finally {
+    pendingUploads.delete(key);
+  }
+}
+
+async function uploadFromFs(
+  api: IpfsApi,
+  dirOrFilePath: string,
+  onProgress: (percent: number) => void,
+  retries: number
+): Promise<string> {
+  const filePaths = traverseDir(dirOrFilePath);
+  const fileSizes = filePaths.map(filePath => fs.statSync(filePath).size);
+  const totalSize = fileSizes.reduce((total, size) => total + size, 0);
+
+  // Report upload progress, and throttle to one update per percent point
   let lastPercent = -1;
-  const apiUrl = normalizeIpfsProvider(ipfsProvider);
+  let uploadedSize = 0;
+  const reportProgress = (transferred: number) => {
+    const percent = totalSize > 0 ? transferred / totalSize : 1;
+    const currentRoundPercent = Math.round(100 * percent);
+    if (lastPercent !== currentRoundPercent) {
+      lastPercent = currentRoundPercent;
+      onProgress(percent);
+    }
+  };
+
+  const fileHashes: string[] = [];
+  for (const [i, filePath] of filePaths.entries()) {
+    const localHash = (await computeIpfsHash(filePath)).replace("/ipfs/", "");
+    const hash = (await ipfsIsPinned(api, localHash))
+      ? localHash
+      : await retryUpload(
+          () =>
+            ipfsAddFile(api, filePath, percent =>
+              reportProgress(uploadedSize + percent * fileSizes[i])
+            ),
+          retries
+        );
+    fileHashes.push(hash);
+    uploadedSize += fileSizes[i];
+    reportProgress(uploadedSize);
+  }
+
+  if (!fs.lstatSync(dirOrFilePath).isDirectory())
+    return `/ipfs/${fileHashes[0]}`;
+
+  // Assemble the directory, sub-directories are created as needed
+  let rootHash = (
+    await ipfsApiPost<IpfsApiObjectResponse>(api, "object/new", [
+      ["arg", "unixfs-dir"]
+    ])
+  ).Hash;
+  for (const [i, filePath] of filePaths.entries()) {
+    const linkPath = path
+      .relative(dirOrFilePath, filePath)
+      .split(path.sep)
+      .join("/");
+    const previousRootHash = rootHash;
+    rootHash = (
+      await retryUpload(
+        () =>
+          ipfsApiPost<IpfsApiObjectResponse>(api, "object/patch/add-link", [
+            ["arg", previousRootHash],
+            ["arg", linkPath],
+            ["arg", fileHashes[i]],
+            ["create", "true"]
+          ]),
+        retries
+      )
+    ).Hash;
+  }
+
+  await retryUpload(
+    () => ipfsApiPost(api, "pin/add", [["arg", rootHash]]),
+    retries
+  );
+
+  // Files are kept by the pin of the release
+  for (const hash of new Set(fileHashes))
+    await retryUpload(() => ipfsUnpin(api, hash), retries);
+
+  return `/ipfs/${rootHash}`;
+}
+
+/**
+ * Returns true if `hash` is pinned recursively, then all its blocks are
+ * in the node. Errors are ignored, the file is uploaded again
+ */
+async function ipfsIsPinned(api: IpfsApi, hash: string): Promise<boolean> {
+  try {
+    const { Keys } = await ipfsApiPost<{ Keys: { [hash: string]: unknown } }>(
+      api,
+      "pin/ls",
+      [
+        ["arg", hash],
+        ["type", "recursive"]
+      ]
+    );
+    return Boolean(Keys[hash]);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Removes the direct pin of `hash`. A file that is not directly pinned
+ * anymore, i.e. shared with a release uploaded at the same time, is not an
+ * error. The node returns a 500 error that must not be retried
+ */
+async function ipfsUnpin(api: IpfsApi, hash: string): Promise<void> {
+  try {
+    await ipfsApiPost(api, "pin/rm", [["arg", hash]]);
+  } catch (e) {
+    if (
+      e instanceof HTTPError &&
+      JSON.stringify(e.response.body).includes("not pinned")
+    )
+      return;
+    throw e;
+  }
+}
+
+/**
+ * Uploads and pins a single file
+ * @returns "Qm..."
+ */
+async function ipfsAddFile(
+  api: IpfsApi,
+  filePath: string,
+  onProgress: (percent: number) => void
+): Promise<string> {
+  // Create the form on each attempt, streams can only be read once
+  const form = getFormDataFileUpload(filePath);
   const res = await got({
-    prefixUrl: apiUrl,
+    prefixUrl: api.prefixUrl,
     url: "api/v0/add",
     method: "POST",
-    headers: form.getHeaders(),
+    searchParams: { pin: true },
+    headers: form.getHeaders(api.headers),
     body: form
-  }).on("uploadProgress", progress => {
-    // Report upload progress, and throttle to one update per percent point
-    // { percent: 0.9995998225975282, transferred: 733675762, total: 733969480 }
-    const currentRoundPercent = Math.round(100 * progress.percent);
-    if (lastPercent !== currentRoundPercent) {
-      lastPercent = currentRoundPercent;
-      if (onProgress) onProgress(progress.percent);
-    }
-  });
+  }).on("uploadProgress", progress => onProgress(progress.percent));
 
-  // res.body = '{"Name":"dir/file","Hash":"Qm...","Size":"2203"}\n{"Name":"dir","Hash":"Qm...","Size":"24622"}\n'
-  // Trim last \n, split entries by \n and then select the last which is the root directory
+  // res.body = '{"Name":"file","Hash":"Qm...","Size":"2203"}\n'
   const lastFileUnparsed = res.body.trim().split("\n").slice(-1)[0];
   if (!lastFileUnparsed) throw Error(`No files in response body ${res.body}`);
+  return JSON.parse(lastFileUnparsed).Hash;
+}
 
-  // Parse the JSON and return the hash of the root directory
-  const lastFile = JSON.parse(lastFileUnparsed);
-  return `/ipfs/${lastFile.Hash}`;
+async function ipfsApiPost<T>(
+  api: IpfsApi,
+  route: string,
+  params: [string, string][]
+): Promise<T> {
+  const res = await got<T>({
+    prefixUrl: api.prefixUrl,
+    url: `api/v0/${route}`,
+    method: "POST",
+    headers: api.headers,
+    searchParams: new URLSearchParams(params),
+    responseType: "json"
+  });
+  return res.body;
 }
@@ -0,0 +1,49 @@
+import fs from "fs";
+import got from "got";
+import stream from "stream";
+import util from "util";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
+
+const pipeline = util.promisify(stream.pipeline);
+
+/**
+ * Returns the contents of an IPFS file as a string
+ * @param hash "/ipfs/Qm..." | "Qm..."
+ * @param ipfsProvider "dappnode" | "http://localhost:5001"
+ */
+export async function ipfsCat(
+  hash: string,
+  ipfsProvider: string
+): Promise<string> {
+  const res = await got({
+    prefixUrl: normalizeIpfsProvider(ipfsProvider),
+    url: "api/v0/cat",
+    method: "POST",
+    headers: getIpfsProviderHeaders(ipfsProvider),
+    searchParams: { arg: hash }
+  });
+  return res.body;
+}
+
+/**
+ * Streams the contents of an IPFS file to `filepath`
+ * @param hash "/ipfs/Qm..." | "Qm..."
+ * @param ipfsProvider "dappnode" | "http://localhost:5001"
+ * @param filepath "build_0.1.0/geth.dnp.dappnode.eth_0.1.0_linux-amd64.txz"
+ */
+export async function ipfsCatToFile(
+  hash: string,
+  ipfsProvider: string,
+  filepath: string
+): Promise<void> {
+  const catStream = got.stream({
+    prefixUrl: normalizeIpfsProvider(ipfsProvider),
+    url: "api/v0/cat",
+    method: "POST",
+    headers: getIpfsProviderHeaders(ipfsProvider),
+    searchParams: { arg: hash }
+  });
+  // POST streams are writable, end the request body to send it
+  catStream.end();
+  await pipeline(catStream, fs.createWriteStream(filepath));
+}
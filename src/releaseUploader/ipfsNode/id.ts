@@ -0,0 +1,24 @@
+import got from "got";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
+
+interface IpfsApiIdResponse {
+  ID: string; // "QmYyQSo1c1Ym7orWxLYvCrM2EmxFTANf8wXmmE7DWjhx5N"
+  Addresses: string[] | null; // ["/ip4/1.2.3.4/tcp/4001/p2p/QmYyQ..."]
+  AgentVersion: string; // "kubo/0.20.0/"
+}
+
+/**
+ * Show the peer ID and the multiaddrs of the IPFS node
+ * @param ipfsProvider "dappnode" | "http://localhost:5001"
+ */
+export async function ipfsId(ipfsProvider: string): Promise<IpfsApiIdResponse> {
+  const res = await got<IpfsApiIdResponse>({
+    prefixUrl: normalizeIpfsProvider(ipfsProvider),
+    url: "api/v0/id",
+    method: "POST",
+    headers: getIpfsProviderHeaders(ipfsProvider),
+    responseType: "json"
+  });
+
+  return res.body;
+}
@@ -12,12 +12,14 @@ export class ReleaseUploaderIpfsNode implements IReleaseUploader {
 
   async addFromFs({
     dirPath,
-    onProgress
+    onProgress,
+    retries
   }: {
     dirPath: string;
     onProgress?: (percent: number) => void;
+    retries?: number;
   }): Promise<string> {
-    return await ipfsAddFromFs(dirPath, this.ipfsProvider, onProgress);
+    return await ipfsAddFromFs(dirPath, this.ipfsProvider, onProgress, retries);
   }
 
   async testConnection(): Promise<void> {
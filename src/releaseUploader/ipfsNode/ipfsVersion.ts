@@ -1,5 +1,5 @@
 import got from "got";
-import { normalizeIpfsProvider } from "./ipfsProvider";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
 
 interface IpfsApiVersionResponse {
   Version: string; // "0.4.21",
@@ -20,8 +20,9 @@ export async function ipfsVersion(
   const apiUrl = normalizeIpfsProvider(ipfsProvider);
   const res = await got<IpfsApiVersionResponse>({
     prefixUrl: apiUrl,
-    url: "/api/v0/version",
+    url: "api/v0/version",
     method: "POST",
+    headers: getIpfsProviderHeaders(ipfsProvider),
     responseType: "json"
   });
 
@@ -0,0 +1,49 @@
+import got from "got";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
+
+interface IpfsApiLsResponse {
+  Objects: {
+    Hash: string;
+    Links: {
+      Name: string; // "dappnode_package.json"
+      Hash: string; // "QmPTkMuuL6PD8L2SwTwbcs1NPg14U8mRzerB1ZrrBrkSDD"
+      Size: number; // 1042
+      Type: number; // 1 = directory, 2 = file
+    }[];
+  }[];
+}
+
+export interface IpfsLsEntry {
+  name: string;
+  hash: string;
+  size: number;
+  isDir: boolean;
+}
+
+/**
+ * List the contents of an IPFS directory
+ * @param hash "/ipfs/Qm..." | "Qm..."
+ * @param ipfsProvider "dappnode" | "http://localhost:5001"
+ */
+export async function ipfsLs(
+  hash: string,
+  ipfsProvider: string
+): Promise<IpfsLsEntry[]> {
+  const res = await got<IpfsApiLsResponse>({
+    prefixUrl: normalizeIpfsProvider(ipfsProvider),
+    url: "api/v0/ls",
+    method: "POST",
+    headers: getIpfsProviderHeaders(ipfsProvider),
+    searchParams: { arg: hash },
+    responseType: "json"
+  });
+
+  const [object] = res.body.Objects;
+  if (!object) throw Error(`No object in ls response of ${hash}`);
+  return object.Links.map(link => ({
+    name: link.Name,
+    hash: link.Hash,
+    size: link.Size,
+    isDir: link.Type === 1
+  }));
+}
@@ -0,0 +1,21 @@
+import got from "got";
+import { normalizeIpfsProvider, getIpfsProviderHeaders } from "./ipfsProvider";
+
+/**
+ * Open a connection from the IPFS node to a peer
+ * @param multiaddr "/ip4/1.2.3.4/tcp/4001/p2p/QmYyQ..."
+ * @param ipfsProvider "dappnode" | "http://localhost:5001"
+ */
+export async function ipfsSwarmConnect(
+  multiaddr: string,
+  ipfsProvider: string
+): Promise<void> {
+  await got({
+    prefixUrl: normalizeIpfsProvider(ipfsProvider),
+    url: "api/v0/swarm/connect",
+    method: "POST",
+    headers: getIpfsProviderHeaders(ipfsProvider),
+    searchParams: { arg: multiaddr },
+    timeout: 30 * 1000
+  });
+}
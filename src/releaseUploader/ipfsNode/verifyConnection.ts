@@ -1,5 +1,6 @@
 import { ipfsVersion } from "./ipfsVersion";
 import { ReleaseUploaderConnectionError } from "../errors";
+import { urlWithoutCredentials } from "../../utils/url";
 
 /**
  * Verify the IPFS connection
@@ -17,14 +18,14 @@ export async function verifyIpfsConnection(
 
     if (e.code === "ENOTFOUND") {
       throw new ReleaseUploaderConnectionError({
-        ipfsProvider,
+        ipfsProvider: urlWithoutCredentials(ipfsProvider),
         reason: "ENOTFOUND",
         help:
           ipfsProvider === "dappnode" ? "Check your VPN connection" : undefined
       });
     } else {
       throw new ReleaseUploaderConnectionError({
-        ipfsProvider,
+        ipfsProvider: urlWithoutCredentials(ipfsProvider),
         reason: e.message
       });
     }
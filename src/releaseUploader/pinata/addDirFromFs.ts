@@ -1,12 +1,17 @@
 import got from "got";
 import { getFormDataFileUpload } from "../utils/formDataFileUpload";
+import { retryUpload } from "../utils/retryUpload";
+import { defaultUploadRetries } from "../../params";
 import { PinataMetadata, PinataOptions, IpfsUploadResult } from "./PinataSDK";
 
 /**
  * Uploads a directory or file from the fs
+ * Pinata requires all files of a directory in the same request, so a
+ * failed upload is retried entirely
  * @param dirOrFilePath "build_0.1.0/"
  * @param pinataUrl "https://api.pinata.cloud"
  * @param onProgress Reports upload progress, 0.4631
+ * @param retries Max number of retries of the upload
  * @returns "/ipfs/Qm..."
  */
 export async function pinataAddFromFs({
@@ -15,7 +20,8 @@ export async function pinataAddFromFs({
   pinataMetadata,
   pinataOptions,
   credentials,
-  onProgress
+  onProgress,
+  retries = defaultUploadRetries
 }: {
   dirOrFilePath: string;
   pinataUrl: string;
@@ -23,34 +29,40 @@ export async function pinataAddFromFs({
   pinataMetadata?: PinataMetadata;
   pinataOptions?: PinataOptions;
   onProgress?: (percent: number) => void;
+  retries?: number;
 }): Promise<string> {
-  // Create form and append all files recursively
-  const form = getFormDataFileUpload(dirOrFilePath);
-  if (pinataMetadata)
-    form.append("pinataMetadata", JSON.stringify(pinataMetadata));
-  if (pinataOptions)
-    form.append("pinataOptions", JSON.stringify(pinataOptions));
-
   let lastPercent = -1;
-  const response = await got({
-    prefixUrl: pinataUrl, // https://api.pinata.cloud
-    url: "pinning/pinFileToIPFS",
-    method: "POST",
-    headers: form.getHeaders({
-      pinata_api_key: credentials.apiKey,
-      pinata_secret_api_key: credentials.secretApiKey
-    }),
-    body: form,
-    responseType: "json"
-  }).on("uploadProgress", progress => {
-    // Report upload progress, and throttle to one update per percent point
-    // { percent: 0.9995998225975282, transferred: 733675762, total: 733969480 }
-    const currentRoundPercent = Math.round(100 * progress.percent);
-    if (lastPercent !== currentRoundPercent) {
-      lastPercent = currentRoundPercent;
-      if (onProgress) onProgress(progress.percent);
-    }
-  });
+  const upload = () => {
+    // Create form and append all files recursively
+    // Created on each attempt, streams can only be read once
+    const form = getFormDataFileUpload(dirOrFilePath);
+    if (pinataMetadata)
+      form.append("pinataMetadata", JSON.stringify(pinataMetadata));
+    if (pinataOptions)
+      form.append("pinataOptions", JSON.stringify(pinataOptions));
+
+    return got({
+      prefixUrl: pinataUrl, // https://api.pinata.cloud
+      url: "pinning/pinFileToIPFS",
+      method: "POST",
+      headers: form.getHeaders({
+        pinata_api_key: credentials.apiKey,
+        pinata_secret_api_key: credentials.secretApiKey
+      }),
+      body: form,
+      responseType: "json"
+    }).on("uploadProgress", progress => {
+      // Report upload progress, and throttle to one update per percent point
+      // { percent: 0.9995998225975282, transferred: 733675762, total: 733969480 }
+      const currentRoundPercent = Math.round(100 * progress.percent);
+      if (lastPercent !== currentRoundPercent) {
+        lastPercent = currentRoundPercent;
+        if (onProgress) onProgress(progress.percent);
+      }
+    });
+  };
+
+  const response = await retryUpload(upload, retries);
 
   const uploadData = response.body as IpfsUploadResult;
   return `/ipfs/${uploadData.IpfsHash}`;
@@ -25,18 +25,21 @@ export class ReleaseUploaderIpfsPinata implements IReleaseUploader {
   async addFromFs({
     dirPath,
     metadata,
-    onProgress
+    onProgress,
+    retries
   }: {
     dirPath: string;
     metadata: PinataMetadata;
     onProgress?: (percent: number) => void;
+    retries?: number;
   }): Promise<string> {
     return await pinataAddFromFs({
       dirOrFilePath: dirPath,
       pinataUrl: this.pinataUrl,
       pinataMetadata: metadata,
       credentials: { apiKey: this.apiKey, secretApiKey: this.secretApiKey },
-      onProgress
+      onProgress,
+      retries
     });
   }
 
@@ -0,0 +1,81 @@
+import got from "got";
+
+/**
+ * Pin request status of the IPFS Pinning Service API
+ * https://ipfs.github.io/pinning-services-api-spec/
+ */
+export interface PinStatus {
+  requestid: string;
+  status: "queued" | "pinning" | "pinned" | "failed";
+  created: string;
+  pin: {
+    cid: string;
+    name?: string;
+  };
+  delegates: string[];
+}
+
+export interface PinningServiceAuth {
+  /** "https://api.pinning-service.io/psa" */
+  serviceUrl: string;
+  accessToken: string;
+}
+
+/**
+ * Request the service to pin `cid`
+ * @param cid "QmeB8ViED9aVaH7sz7o4zwk9MPnABDg51o4Rg5fVwtXVxq"
+ */
+export async function addPin(
+  auth: PinningServiceAuth,
+  pin: {
+    cid: string;
+    name?: string;
+    /** Multiaddrs of the nodes that have the content */
+    origins?: string[];
+    meta?: { [key: string]: string };
+  }
+): Promise<PinStatus> {
+  return await got
+    .post({
+      prefixUrl: auth.serviceUrl,
+      url: "pins",
+      headers: getAuthHeaders(auth),
+      json: pin,
+      // Retried by the caller
+      retry: 0
+    })
+    .json<PinStatus>();
+}
+
+export async function getPin(
+  auth: PinningServiceAuth,
+  requestid: string
+): Promise<PinStatus> {
+  return await got
+    .get({
+      prefixUrl: auth.serviceUrl,
+      url: `pins/${requestid}`,
+      headers: getAuthHeaders(auth),
+      // Retried by the caller
+      retry: 0
+    })
+    .json<PinStatus>();
+}
+
+/**
+ * Lists a single pin to check the service URL and the access token
+ */
+export async function testPinningServiceAuth(
+  auth: PinningServiceAuth
+): Promise<void> {
+  await got.get({
+    prefixUrl: auth.serviceUrl,
+    url: "pins",
+    searchParams: { limit: 1 },
+    headers: getAuthHeaders(auth)
+  });
+}
+
+function getAuthHeaders(auth: PinningServiceAuth): { authorization: string } {
+  return { authorization: `Bearer ${auth.accessToken}` };
+}
@@ -0,0 +1,147 @@
+import { IReleaseUploader } from "../interface";
+import { PinataMetadata } from "../pinata/PinataSDK";
+import { ipfsAddFromFs } from "../ipfsNode/addFromFs";
+import { ipfsId } from "../ipfsNode/id";
+import { ipfsSwarmConnect } from "../ipfsNode/swarmConnect";
+import { verifyIpfsConnection } from "../ipfsNode/verifyConnection";
+import { retryUpload } from "../utils/retryUpload";
+import {
+  addPin,
+  getPin,
+  PinningServiceAuth,
+  testPinningServiceAuth
+} from "./api";
+import { CliError, defaultUploadRetries } from "../../params";
+
+export const pinningServicePrefix = "pinning-service:";
+
+/**
+ * Uploads releases to an IPFS node and pins them remotely in a service
+ * implementing the IPFS Pinning Service API, which pins by CID.
+ * The node's multiaddrs are sent as origins and the node connects to the
+ * delegates of the service, so the release is fetched directly from it
+ */
+export class ReleaseUploaderIpfsPinningService implements IReleaseUploader {
+  networkName = "IPFS pinning service";
+
+  private auth: PinningServiceAuth;
+  private ipfsProvider: string;
+  private pollInterval: number;
+  private pinTimeout: number;
+
+  constructor({
+    serviceUrl,
+    accessToken,
+    ipfsProvider,
+    pollInterval = 5 * 1000,
+    pinTimeout = 60 * 60 * 1000
+  }: {
+    serviceUrl: string;
+    accessToken: string;
+    /** IPFS node to add the release to before pinning it */
+    ipfsProvider: string;
+    pollInterval?: number;
+    pinTimeout?: number;
+  }) {
+    this.auth = { serviceUrl, accessToken };
+    this.ipfsProvider = ipfsProvider;
+    this.pollInterval = pollInterval;
+    this.pinTimeout = pinTimeout;
+  }
+
+  async addFromFs({
+    dirPath,
+    metadata,
+    onProgress,
+    retries = defaultUploadRetries
+  }: {
+    dirPath: string;
+    metadata: PinataMetadata;
+    onProgress?: (percent: number) => void;
+    retries?: number;
+  }): Promise<string> {
+    const releaseHash = await ipfsAddFromFs(
+      dirPath,
+      this.ipfsProvider,
+      onProgress,
+      retries
+    );
+    const cid = releaseHash.replace("/ipfs/", "");
+
+    // Pin meta values must be strings
+    const meta: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(metadata.keyvalues || {}))
+      if (value !== undefined) meta[key] = String(value);
+
+    const origins = await this.getOrigins();
+    let pinStatus = await retryUpload(
+      () => addPin(this.auth, { cid, name: metadata.name, origins, meta }),
+      retries
+    );
+
+    // The service fetches the release from the IPFS network
+    const connectedDelegates = new Set<string>();
+    const timeoutTime = Date.now() + this.pinTimeout;
+    while (pinStatus.status !== "pinned") {
+      if (pinStatus.status === "failed")
+        throw new CliError(`Pinning service failed to pin ${cid}`);
+      if (Date.now() > timeoutTime)
+        throw new CliError(
+          `Pinning service did not pin ${cid} in time, status: ${pinStatus.status}`
+        );
+
+      for (const delegate of pinStatus.delegates || [])
+        if (!connectedDelegates.has(delegate)) {
+          connectedDelegates.add(delegate);
+          await this.connectToDelegate(delegate);
+        }
+
+      await new Promise(r => setTimeout(r, this.pollInterval));
+      const { requestid } = pinStatus;
+      pinStatus = await retryUpload(
+        () => getPin(this.auth, requestid),
+        retries
+      );
+    }
+
+    return releaseHash;
+  }
+
+  /**
+   * Multiaddrs of the IPFS node, without loopback addresses
+   * Origins are optional, so errors are ignored
+   */
+  private async getOrigins(): Promise<string[]> {
+    try {
+      const { Addresses } = await ipfsId(this.ipfsProvider);
+      return (Addresses || []).filter(
+        address =>
+          !address.startsWith("/ip4/127.") && !address.startsWith("/ip6/::1/")
+      );
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /**
+   * Delegates are a hint to speed up the transfer, the service can still
+   * fetch the release through the IPFS network if the connection fails
+   */
+  private async connectToDelegate(delegate: string): Promise<void> {
+    try {
+      await ipfsSwarmConnect(delegate, this.ipfsProvider);
+    } catch (e) {
+      // Ignore, see above
+    }
+  }
+
+  async testConnection(): Promise<void> {
+    await verifyIpfsConnection(this.ipfsProvider);
+    try {
+      await testPinningServiceAuth(this.auth);
+    } catch (e) {
+      e.message = `Error authenticating with pinning service ${this.auth.serviceUrl}: ${e.message}`;
+      throw e;
+    }
+  }
+}
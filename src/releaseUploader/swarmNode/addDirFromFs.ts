@@ -1,26 +1,47 @@
+import fs from "fs";
 import tarFS from "tar-fs";
 import got from "got";
+import { releaseFiles } from "../../params";
+
+interface BeeUploadResponse {
+  reference: string;
+}
 
 /**
+ * Uploads a directory as a collection to a Bee node
+ * The release manifest is set as the index document of the collection
+ * @param dirPath "build_0.1.0"
+ * @param gatewayUrl "http://localhost:1633"
+ * @param postageBatchId Usable postage batch to pay for the upload
  * @returns Resulting hash: "/bzz/a5e0183cee00112..."
  */
 export async function swarmAddDirFromFs(
   dirPath: string,
   gatewayUrl: string,
+  postageBatchId: string,
   onProgress?: (percent: number) => void
 ): Promise<string> {
-  const res = await got({
+  const indexDocument = fs
+    .readdirSync(dirPath)
+    .find(file => releaseFiles.manifest.regex.test(file));
+
+  const res = await got<BeeUploadResponse>({
     prefixUrl: gatewayUrl,
-    url: "/bzz:/",
+    url: "bzz",
     method: "POST",
-    headers: { "content-type": "application/x-tar" },
-    body: tarFS.pack(dirPath)
+    headers: {
+      "content-type": "application/x-tar",
+      "swarm-postage-batch-id": postageBatchId,
+      "swarm-collection": "true",
+      ...(indexDocument ? { "swarm-index-document": indexDocument } : {})
+    },
+    body: tarFS.pack(dirPath),
+    responseType: "json"
   }).on("uploadProgress", progress => {
     // Report upload progress
     // { percent: 0.9995998225975282, transferred: 733675762, total: 733969480 }
     if (onProgress) onProgress(progress.percent);
   });
 
-  const rootHash = res.body;
-  return `/bzz/${rootHash}`;
+  return `/bzz/${res.body.reference}`;
 }
@@ -1,26 +1,48 @@
 import { IReleaseUploader } from "../interface";
 import { swarmAddDirFromFs } from "./addDirFromFs";
 import { getSwarmGatewayUrl } from "./provider";
+import { verifySwarmConnection } from "./verifyConnection";
+import { retryUpload } from "../utils/retryUpload";
+import { defaultUploadRetries } from "../../params";
 
 export class ReleaseUploaderSwarmNode implements IReleaseUploader {
   networkName = "Swarm node";
   gatewayUrl: string;
+  postageBatchId: string;
 
-  constructor({ swarmProvider }: { swarmProvider: string }) {
+  constructor({
+    swarmProvider,
+    postageBatchId
+  }: {
+    swarmProvider: string;
+    postageBatchId: string;
+  }) {
     this.gatewayUrl = getSwarmGatewayUrl(swarmProvider);
+    this.postageBatchId = postageBatchId;
   }
 
   async addFromFs({
     dirPath,
-    onProgress
+    onProgress,
+    retries = defaultUploadRetries
   }: {
     dirPath: string;
     onProgress?: (percent: number) => void;
+    retries?: number;
   }): Promise<string> {
-    return await swarmAddDirFromFs(dirPath, this.gatewayUrl, onProgress);
+    return await retryUpload(
+      () =>
+        swarmAddDirFromFs(
+          dirPath,
+          this.gatewayUrl,
+          this.postageBatchId,
+          onProgress
+        ),
+      retries
+    );
   }
 
   async testConnection(): Promise<void> {
-    // ### TODO
+    await verifySwarmConnection(this.gatewayUrl, this.postageBatchId);
   }
 }
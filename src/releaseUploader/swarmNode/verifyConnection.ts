@@ -0,0 +1,56 @@
+import got from "got";
+import { ReleaseUploaderConnectionError } from "../errors";
+
+interface BeeHealthResponse {
+  status: string; // "ok"
+  version: string; // "1.17.2-a7c5c4b6"
+}
+
+interface BeeStampResponse {
+  batchID: string;
+  usable: boolean;
+  exists: boolean;
+}
+
+/**
+ * Verify the Bee node is healthy and the postage batch can pay for uploads
+ * @param gatewayUrl "http://localhost:1633"
+ * @param postageBatchId "f1e4ff753ea1cb923269ed0cda909d13a10d624719edf261e196584e9e764e50"
+ */
+export async function verifySwarmConnection(
+  gatewayUrl: string,
+  postageBatchId: string
+): Promise<void> {
+  try {
+    const health = await got
+      .get({ prefixUrl: gatewayUrl, url: "health" })
+      .json<BeeHealthResponse>();
+    if (health.status !== "ok") throw Error(`Bee status ${health.status}`);
+  } catch (e) {
+    throw new ReleaseUploaderConnectionError({
+      ipfsProvider: gatewayUrl,
+      reason: e.code === "ENOTFOUND" ? "ENOTFOUND" : e.message
+    });
+  }
+
+  let stamp: BeeStampResponse;
+  try {
+    stamp = await got
+      .get({ prefixUrl: gatewayUrl, url: `stamps/${postageBatchId}` })
+      .json<BeeStampResponse>();
+  } catch (e) {
+    throw new ReleaseUploaderConnectionError({
+      ipfsProvider: gatewayUrl,
+      reason: `Postage batch ${postageBatchId} not found: ${e.message}`,
+      help: "Buy a postage batch in your Bee node"
+    });
+  }
+
+  if (!stamp.exists || !stamp.usable)
+    throw new ReleaseUploaderConnectionError({
+      ipfsProvider: gatewayUrl,
+      reason: `Postage batch ${postageBatchId} is not usable`,
+      help:
+        "Wait until the postage batch is usable, it may take a few minutes after buying it"
+    });
+}
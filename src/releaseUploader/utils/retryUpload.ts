@@ -0,0 +1,26 @@
+import retry from "async-retry";
+import { HTTPError } from "got";
+
+/**
+ * Retries an upload request with exponential backoff.
+ * Client errors (4xx), i.e. bad credentials, are not retried
+ * @param retries Max number of retries after the first attempt
+ */
+export async function retryUpload<T>(
+  upload: () => Promise<T>,
+  retries: number
+): Promise<T> {
+  return await retry(
+    async () => {
+      try {
+        return await upload();
+      } catch (e) {
+        // async-retry does not retry errors with `bail` set
+        if (e instanceof HTTPError && e.response.statusCode < 500)
+          Object.assign(e, { bail: true });
+        throw e;
+      }
+    },
+    { retries }
+  );
+}
@@ -2,17 +2,32 @@ import fs from "fs";
 import path from "path";
 import Listr, { ListrTask } from "listr";
 import rimraf from "rimraf";
-import { readManifest, writeManifest } from "../utils/manifest";
-import { validateManifest } from "../utils/validateManifest";
+import {
+  readManifest,
+  writeManifest,
+  getManifestPath
+} from "../utils/manifest";
+import {
+  getManifestReleaseErrors,
+  validateManifest
+} from "../utils/validateManifest";
+import { validateCompose } from "../utils/validateCompose";
+import { validateSetupWizard } from "../utils/validateSetupWizard";
+import { readSetupWizardIfExists } from "../utils/setupWizard";
+import { getChangelog } from "../utils/changelog";
 import { verifyAvatar } from "../utils/verifyAvatar";
-import { copyReleaseFile } from "../utils/copyReleaseFile";
+import {
+  copyReleaseFile,
+  verifyReleaseFileSize
+} from "../utils/copyReleaseFile";
 import { addReleaseRecord } from "../utils/releaseRecord";
 import {
   releaseFiles,
   CliError,
   getImagePath,
   getLegacyImagePath,
-  releaseFilesDefaultNames
+  releaseFilesDefaultNames,
+  defaultIpfsGateway
 } from "../params";
 import {
   readCompose,
@@ -27,9 +42,12 @@ import { ListrContextBuildAndPublish } from "../types";
 import { parseTimeout } from "../utils/timeout";
 import { buildWithBuildx } from "./buildWithBuildx";
 import { buildWithCompose } from "./buildWithCompose";
+import { verifyReleaseAvailability } from "./verifyReleaseAvailability";
 import { parseArchitectures } from "../utils/parseArchitectures";
 import { pruneCache } from "../utils/cache";
 import { getArchitecture } from "../utils/getArchitecture";
+import { computeIpfsHash } from "../utils/ipfsHash";
+import { urlWithoutCredentials } from "../utils/url";
 import { getGitHead, getGitHeadIfAvailable } from "../utils/git";
 import { fetchPinsWithBranchToDelete, getPinMetadata } from "../pinStrategy";
 import { PinataPinManager } from "../providers/pinata/pinManager";
@@ -38,7 +56,9 @@ import {
   getReleaseUploader,
   ReleaseUploaderConnectionError,
   cliArgsToReleaseUploaderProvider,
-  UploadTo
+  parseUploadTargets,
+  uploadToTargets,
+  UploadTarget
 } from "../releaseUploader";
 
 // Pretty percent uploaded reporting
@@ -49,22 +69,35 @@ export function buildAndUpload({
   buildDir,
   contentProvider,
   uploadTo,
+  uploadRetries,
+  verifyAvailability,
+  gatewayUrl,
   userTimeout,
   skipSave,
   skipUpload,
   requireGitData,
   deleteOldPins,
+  ignoreSizeLimits,
+  addChangelog,
   composeFileName,
   dir
 }: {
   buildDir: string;
+  /** Comma separated list: "dappnode,pinata" */
   contentProvider: string;
-  uploadTo: UploadTo;
+  /** Comma separated list: "ipfs" */
+  uploadTo: string;
+  uploadRetries?: number;
+  verifyAvailability?: boolean;
+  /** Gateway to verify the availability of the release: "https://ipfs.io" */
+  gatewayUrl?: string;
   userTimeout?: string;
   skipSave?: boolean;
   skipUpload?: boolean;
   requireGitData?: boolean;
   deleteOldPins?: boolean;
+  ignoreSizeLimits?: boolean;
+  addChangelog?: boolean;
   composeFileName: string;
   dir: string;
 }): ListrTask<ListrContextBuildAndPublish>[] {
@@ -74,23 +107,11 @@ export function buildAndUpload({
   const { manifest, format } = readManifest({ dir });
 
   // Make sure the release is of correct type
-  if ((manifest as any).image)
-    throw new CliError(`
-DAppNode packages expect all docker related data to be contained only
-in the docker-compose.yml. Please translate the settings in 'manifest.image'
-to your package's docker-compose.yml and then delete the 'manifest.image' prop.
-`);
-  if (manifest.avatar)
-    throw new CliError(`
-DAppNode packages expect the avatar to be located at the root folder as a file
-and not declared in the manifest. Please add your package avatar to this directory
-as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' property.
-`);
+  const releaseErrors = getManifestReleaseErrors(manifest);
+  if (releaseErrors.length > 0) throw new CliError(releaseErrors.join("\n"));
 
   // Define variables from manifest
   const { name, version } = manifest;
-  if (/[A-Z]/.test(name))
-    throw new CliError("Package name in the manifest must be lowercase");
 
   // Update compose
   const composePath = getComposePath({ dir, composeFileName });
@@ -124,29 +145,56 @@ as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' prop
     parseComposeUpstreamVersion(composeForDev) || process.env.UPSTREAM_VERSION;
   if (upstreamVersion) manifest.upstreamVersion = upstreamVersion;
 
-  // Release upload. Use function for return syntax
-  const releaseUploaderProvider = cliArgsToReleaseUploaderProvider({
-    uploadTo,
-    contentProvider
-  });
-  const releaseUploader = getReleaseUploader(releaseUploaderProvider);
+  // Release upload. All targets are uploaded in parallel
+  const uploadTargets = parseUploadTargets({ uploadTo, contentProvider }).map(
+    (target): UploadTarget => {
+      const provider = cliArgsToReleaseUploaderProvider(target);
+      return {
+        // Do not print or record credentials of the provider URL
+        location: urlWithoutCredentials(target.contentProvider),
+        provider,
+        releaseUploader: getReleaseUploader(provider)
+      };
+    }
+  );
+  // All targets are in the same network
+  const { networkName } = uploadTargets[0].releaseUploader;
+  const isIpfs = uploadTargets[0].provider.network === "ipfs";
+
+  /**
+   * Final edits to the release directory before it is hashed
+   */
+  function prepareReleaseDir(): void {
+    if (fs.existsSync(imagePathAmd))
+      fs.copyFileSync(imagePathAmd, imagePathLegacy);
+
+    // Remove `build` property AFTER building. Otherwise it may break ISO installations
+    // https://github.com/dappnode/DAppNode_Installer/issues/161
+    composeDeleteBuildProperties({ dir: buildDir, composeFileName });
+  }
 
   return [
     {
       title: "Verify connection",
       skip: () => skipUpload,
       task: async () => {
-        try {
-          await releaseUploader.testConnection();
-        } catch (e) {
-          if (e instanceof ReleaseUploaderConnectionError) {
-            throw new CliError(
-              `Can't connect to ${e.ipfsProvider}: ${e.reason}. ${e.help || ""}`
-            );
-          } else {
-            throw e;
-          }
-        }
+        await Promise.all(
+          uploadTargets.map(async ({ releaseUploader }) => {
+            try {
+              await releaseUploader.testConnection();
+            } catch (e) {
+              if (e instanceof ReleaseUploaderConnectionError) {
+                throw new CliError(
+                  `Can't connect to ${e.ipfsProvider}: ${e.reason}. ${
+                    e.help || ""
+                  }`
+                );
+              } else {
+                throw e;
+              }
+            }
+          })
+        );
       }
     },
 
@@ -176,10 +224,27 @@ as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' prop
         // Write compose with build props for builds
         writeCompose(composeForBuild, { dir, composeFileName });
 
+        if (addChangelog && !manifest.changelog)
+          manifest.changelog = await getChangelog({ dir, version });
+
         // Copy files for release dir
         writeCompose(composeForRelease, { dir: buildDir, composeFileName });
         writeManifest(manifest, format, { dir: buildDir });
-        validateManifest(manifest);
+        validateManifest(manifest, composeForRelease);
+        validateCompose(composeForRelease, {
+          isCore: manifest.type === "dncore"
+        });
+
+        if (!ignoreSizeLimits) {
+          verifyReleaseFileSize(
+            { ...releaseFiles.manifest, id: "manifest" },
+            getManifestPath(format, { dir: buildDir })
+          );
+          verifyReleaseFileSize(
+            { ...releaseFiles.compose, id: "compose" },
+            getComposePath({ dir: buildDir, composeFileName })
+          );
+        }
 
         // Copy all other release files
         for (const [fileId, fileConfig] of Object.entries(releaseFiles)) {
@@ -191,11 +256,16 @@ as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' prop
               copyReleaseFile({
                 fileConfig: { ...fileConfig, id: fileId },
                 fromDir: dir,
-                toDir: buildDir
+                toDir: buildDir,
+                ignoreSizeLimits
               });
           }
         }
 
+        // Verify setup wizard targets against the release compose (throws)
+        const setupWizard = readSetupWizardIfExists(buildDir);
+        if (setupWizard) validateSetupWizard(setupWizard, composeForRelease);
+
         // Verify avatar (throws)
         const avatarPath = path.join(buildDir, releaseFilesDefaultNames.avatar);
         verifyAvatar(avatarPath);
@@ -238,23 +308,58 @@ as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' prop
         })),
 
     {
-      title: `Upload release to ${releaseUploader.networkName}`,
+      title: `Upload release to ${networkName}`,
       skip: () => skipUpload,
       task: async (ctx, task) => {
-        if (fs.existsSync(imagePathAmd))
-          fs.copyFileSync(imagePathAmd, imagePathLegacy);
+        prepareReleaseDir();
 
         const gitHead = await getGitHeadIfAvailable({ requireGitData });
 
-        // Remove `build` property AFTER building. Otherwise it may break ISO installations
-        // https://github.com/dappnode/DAppNode_Installer/issues/161
-        composeDeleteBuildProperties({ dir: buildDir, composeFileName });
-
-        ctx.releaseHash = await releaseUploader.addFromFs({
+        ctx.releaseHash = await uploadToTargets(uploadTargets, {
           dirPath: buildDir,
           metadata: getPinMetadata(manifest, gitHead) as PinKeyvaluesDefault,
-          onProgress: percent => (task.output = percentToMessage(percent))
+          retries: uploadRetries,
+          // Progress of each target, shown in a single line
+          onProgress: percents => {
+            task.output =
+              uploadTargets.length === 1
+                ? percentToMessage(percents[0])
+                : uploadTargets
+                    .map(
+                      (target, i) =>
+                        `${target.location} ${(percents[i] * 100).toFixed(2)}%`
+                    )
+                    .join(", ");
+          }
         });
+
+        // Nodes with non default import settings return a different hash
+        if (isIpfs) {
+          task.output = "Verifying release hash...";
+          const localHash = await computeIpfsHash(buildDir);
+          if (localHash !== ctx.releaseHash)
+            task.title =
+              task.title +
+              ` (warning: ${ctx.releaseHash} differs from the hash computed locally ${localHash})`;
+        }
+      }
+    },
+
+    ...(verifyAvailability && !skipUpload
+      ? verifyReleaseAvailability({
+          buildDir,
+          gatewayUrl: gatewayUrl || defaultIpfsGateway
+        })
+      : []),
+
+    {
+      title: "Compute release hash",
+      enabled: () => Boolean(skipUpload) && !skipSave && isIpfs,
+      task: async (ctx, task) => {
+        prepareReleaseDir();
+        // Same hash the uploaders get for the files of buildDir
+        ctx.releaseHash = await computeIpfsHash(buildDir);
+        task.title = task.title + ` (${ctx.releaseHash})`;
       }
     },
 
@@ -263,11 +368,14 @@ as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' prop
       enabled: () => Boolean(deleteOldPins),
       task: async (_, task) => {
         const gitHead = await getGitHead();
-        if (releaseUploaderProvider.type !== "pinata")
+        const pinataTarget = uploadTargets.find(
+          target => target.provider.type === "pinata"
+        );
+        if (!pinataTarget || pinataTarget.provider.type !== "pinata")
           throw Error("Must use pinata for deleteOldPins");
 
         // Unpin items on the same branch but previous (ancestor) commits
-        const pinata = new PinataPinManager(releaseUploaderProvider);
+        const pinata = new PinataPinManager(pinataTarget.provider);
         const pinsToDelete = await fetchPinsWithBranchToDelete(
           pinata,
           manifest,
@@ -286,12 +394,14 @@ as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' prop
     {
       title: "Save upload results",
       task: async ctx => {
-        addReleaseRecord({
-          dir,
-          version,
-          hash: ctx.releaseHash,
-          to: contentProvider
-        });
+        if (!skipUpload)
+          for (const { location } of uploadTargets)
+            addReleaseRecord({
+              dir,
+              version,
+              hash: ctx.releaseHash,
+              to: location
+            });
 
         // "return" result for next tasks
         ctx.releaseMultiHash = ctx.releaseHash;
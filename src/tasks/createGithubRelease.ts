@@ -4,6 +4,10 @@ import Listr from "listr";
 import { getPublishTxLink, getInstallDnpLink } from "../utils/getLinks";
 import { getGitHead } from "../utils/git";
 import { compactManifestIfCore } from "../utils/compactManifest";
+import { getChangelog } from "../utils/changelog";
+import { readManifest } from "../utils/manifest";
+import { getTxDataToPrint } from "../utils/outputTxData";
+import { printObject } from "../utils/print";
 import { contentHashFile, defaultDir } from "../params";
 import {
   TxData,
@@ -108,9 +112,15 @@ export function createGithubRelease({
           // https://github.com/dappnode/DAppNode_Installer/issues/161
           composeDeleteBuildProperties({ dir: buildDir, composeFileName });
 
+          // Prefer the changelog published in the manifest, if any
+          const { manifest } = readManifest({ dir: buildDir });
+          const changelog =
+            manifest.changelog ||
+            (await getChangelog({ dir, version: nextVersion, github }));
+
           task.output = `Creating release for tag ${tag}...`;
           await github.createReleaseAndUploadAssets(tag, {
-            body: getReleaseBody(txData),
+            body: getReleaseBody(txData, changelog),
             // Tag as pre-release until it is actually published in APM mainnet
             prerelease: true,
             assetsDir: buildDir,
@@ -132,11 +142,9 @@ export function createGithubRelease({
 
 /**
  * Write the release body
- * #### TODO: Extend this to automatically write the body
  */
-function getReleaseBody(txData: TxData) {
+function getReleaseBody(txData: TxData, changelog: string) {
   const link = getPublishTxLink(txData);
-  const changelog = "";
   const installLink = getInstallDnpLink(txData.releaseMultiHash);
   return `
 ##### Changelog
@@ -153,10 +161,7 @@ Authorized developer account may execute this transaction [from a pre-filled lin
 <p>
 
 \`\`\`
-To: ${txData.to}
-Value: ${txData.value}
-Data: ${txData.data}
-Gas limit: ${txData.gasLimit}
+${printObject(getTxDataToPrint(txData), (key, value) => `${key}: ${value}`)}
 \`\`\`
 
 \`\`\`
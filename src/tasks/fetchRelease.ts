@@ -0,0 +1,132 @@
+import fs from "fs";
+import path from "path";
+import Listr from "listr";
+import yaml from "js-yaml";
+import { ipfsLs } from "../releaseUploader/ipfsNode/ls";
+import { ipfsCat, ipfsCatToFile } from "../releaseUploader/ipfsNode/cat";
+import { readManifest } from "../utils/manifest";
+import { addReleaseRecord } from "../utils/releaseRecord";
+import { urlWithoutCredentials } from "../utils/url";
+import { CliError, defaultDir, releaseFiles } from "../params";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Manifest
+} from "../types";
+
+/**
+ * Uses an existing release instead of building it. Verifies that the
+ * manifest of `releaseHash` matches the name of the local manifest and
+ * the next version, then records it in releases.json.
+ * If `downloadFiles` the release is downloaded to `ctx.buildDir`
+ */
+export function fetchRelease({
+  dir = defaultDir,
+  releaseHash,
+  contentProvider,
+  downloadFiles,
+  verbose,
+  silent
+}: {
+  releaseHash: string;
+  contentProvider: string;
+  downloadFiles?: boolean;
+} & CliGlobalOptions): Listr<ListrContextBuildAndPublish> {
+  const releaseMultiHash = normalizeReleaseHash(releaseHash);
+
+  return new Listr<ListrContextBuildAndPublish>(
+    [
+      {
+        title: `Verify release ${releaseMultiHash}`,
+        task: async ctx => {
+          const files = await ipfsLs(releaseMultiHash, contentProvider);
+          const manifestFile = files.find(
+            file => !file.isDir && releaseFiles.manifest.regex.test(file.name)
+          );
+          if (!manifestFile)
+            throw new CliError(`No manifest found in ${releaseMultiHash}`);
+
+          let releaseManifest: Manifest;
+          try {
+            releaseManifest = yaml.load(
+              await ipfsCat(manifestFile.hash, contentProvider)
+            );
+          } catch (e) {
+            throw Error(`Error parsing release manifest: ${e.message}`);
+          }
+
+          const { manifest } = readManifest({ dir });
+          const errors: string[] = [];
+          if (releaseManifest.name !== manifest.name)
+            errors.push(
+              `name ${releaseManifest.name} does not match the local manifest name ${manifest.name}`
+            );
+          if (releaseManifest.version !== ctx.nextVersion)
+            errors.push(
+              `version ${releaseManifest.version} does not match the next version ${ctx.nextVersion}`
+            );
+          if (errors.length > 0)
+            throw new CliError(
+              `Release ${releaseMultiHash} is not valid: \n  - ${errors.join(
+                "\n  - "
+              )}`
+            );
+
+          addReleaseRecord({
+            dir,
+            version: ctx.nextVersion,
+            hash: releaseMultiHash,
+            to: urlWithoutCredentials(contentProvider)
+          });
+
+          ctx.releaseHash = releaseMultiHash;
+          ctx.releaseMultiHash = releaseMultiHash;
+        }
+      },
+      {
+        title: "Download release files",
+        enabled: () => Boolean(downloadFiles),
+        task: async (ctx, task) => {
+          await ipfsDownloadDir(
+            releaseMultiHash,
+            contentProvider,
+            ctx.buildDir,
+            filepath => {
+              task.output = `Downloading ${filepath}...`;
+            }
+          );
+        }
+      }
+    ],
+    { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
+  );
+}
+
+/**
+ * @param releaseHash "Qm..." | "/ipfs/Qm..."
+ * @return "/ipfs/Qm..."
+ */
+function normalizeReleaseHash(releaseHash: string): string {
+  const hash = releaseHash.replace(/^\/?ipfs\//, "");
+  if (!hash || hash.includes("/"))
+    throw new CliError(`Invalid release hash ${releaseHash}`);
+  return `/ipfs/${hash}`;
+}
+
+async function ipfsDownloadDir(
+  hash: string,
+  ipfsProvider: string,
+  dirPath: string,
+  onFile: (filepath: string) => void
+): Promise<void> {
+  fs.mkdirSync(dirPath, { recursive: true });
+  for (const file of await ipfsLs(hash, ipfsProvider)) {
+    const filepath = path.join(dirPath, file.name);
+    if (file.isDir) {
+      await ipfsDownloadDir(file.hash, ipfsProvider, filepath, onFile);
+    } else {
+      onFile(filepath);
+      await ipfsCatToFile(file.hash, ipfsProvider, filepath);
+    }
+  }
+}
@@ -3,23 +3,37 @@ import { ethers } from "ethers";
 import {
   Apm,
   encodeNewVersionCall,
-  encodeNewRepoWithVersionCall
+  encodeNewRepoWithVersionCall,
+  encodeForwardCall
 } from "../utils/Apm";
 import { readManifest } from "../utils/manifest";
 import { getPublishTxLink } from "../utils/getLinks";
 import { addReleaseTx } from "../utils/releaseRecord";
 import { defaultDir, YargsError } from "../params";
-import { CliGlobalOptions, ListrContextBuildAndPublish } from "../types";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Network
+} from "../types";
 
 const isZeroAddress = (address: string): boolean => parseInt(address) === 0;
 
+// Used when the provider can't estimate the gas of the transaction
+const newVersionGasLimit = 300000;
+const newRepoWithVersionGasLimit = 1100000;
+const forwardGasLimit = 1500000;
+const defaultGasMargin = 20; // %
+
 /**
  * Generates the transaction data necessary to publish the package.
  * It will check if the repository exists first:
  * - If it exists:
  * - If it does not exists:
  *
- * Then it will construct the txData object = {to, value, data, gasLimit} and:
+ * Then it will construct the txData object = {to, value, data, gasLimit} with
+ * an estimated gasLimit plus `gasMargin` % and EIP-1559 fee suggestions.
+ * If a `forwarderAddress` is provided the call is wrapped in an EVMScript
+ * sent to the Aragon forwarder, which opens a DAO vote. Then:
  * - Write it on deploy.txt
  * - Show it on screen
  */
@@ -29,15 +43,21 @@ export function generatePublishTx({
   releaseMultiHash,
   developerAddress,
   ethProvider,
+  network,
+  gasMargin = defaultGasMargin,
+  forwarderAddress,
   verbose,
   silent
 }: {
   releaseMultiHash: string;
   developerAddress?: string;
   ethProvider: string;
+  network?: Network;
+  gasMargin?: number;
+  forwarderAddress?: string;
 } & CliGlobalOptions): Listr<ListrContextBuildAndPublish> {
   // Init APM instance
-  const apm = new Apm(ethProvider);
+  const apm = new Apm(ethProvider, network);
 
   // Load manifest ##### Verify manifest object
   const { manifest } = readManifest({ dir });
@@ -55,20 +75,30 @@ export function generatePublishTx({
       {
         title: "Generate transaction",
         task: async ctx => {
+          const chainId = await apm.getChainId();
+          const fees = await getFeeSuggestions(apm);
+
           const repository = await apm.getRepoContract(ensName);
           if (repository) {
+            const data = encodeNewVersionCall({
+              version: currentVersion,
+              contractAddress,
+              contentURI
+            });
             ctx.txData = {
               to: repository.address,
               value: 0,
-              data: encodeNewVersionCall({
-                version: currentVersion,
-                contractAddress,
-                contentURI
-              }),
-              gasLimit: 300000,
+              data,
+              gasLimit: await estimateGasLimit(
+                apm,
+                { to: repository.address, data, from: developerAddress },
+                { fallback: newVersionGasLimit, gasMargin }
+              ),
+              ...fees,
               ensName,
               currentVersion,
-              releaseMultiHash
+              releaseMultiHash,
+              chainId
             };
           } else {
             const registry = await apm.getRegistryContract(ensName);
@@ -99,21 +129,43 @@ with command option:
               );
             }
 
+            const data = encodeNewRepoWithVersionCall({
+              name: shortName,
+              developerAddress,
+              version: currentVersion,
+              contractAddress,
+              contentURI
+            });
             ctx.txData = {
               to: registry.address,
               value: 0,
-              data: encodeNewRepoWithVersionCall({
-                name: shortName,
-                developerAddress,
-                version: currentVersion,
-                contractAddress,
-                contentURI
-              }),
-              gasLimit: 1100000,
+              data,
+              gasLimit: await estimateGasLimit(
+                apm,
+                { to: registry.address, data, from: developerAddress },
+                { fallback: newRepoWithVersionGasLimit, gasMargin }
+              ),
+              ...fees,
               ensName,
               currentVersion,
               releaseMultiHash,
-              developerAddress
+              developerAddress,
+              chainId
+            };
+          }
+
+          if (forwarderAddress) {
+            const data = encodeForwardCall(ctx.txData);
+            ctx.txData = {
+              ...ctx.txData,
+              to: forwarderAddress,
+              data,
+              gasLimit: await estimateGasLimit(
+                apm,
+                { to: forwarderAddress, data, from: developerAddress },
+                { fallback: forwardGasLimit, gasMargin }
+              ),
+              forwarder: forwarderAddress
             };
           }
 
@@ -123,7 +175,8 @@ with command option:
           addReleaseTx({
             dir,
             version: manifest.version,
-            link: getPublishTxLink(ctx.txData)
+            link: getPublishTxLink(ctx.txData),
+            chainId
           });
         }
       }
@@ -131,3 +184,43 @@ with command option:
     { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
   );
 }
+
+/**
+ * Estimates the gas of a transaction and adds `gasMargin` %
+ * Returns `fallback` if the provider can't estimate it, i.e. if `from` is
+ * not authorized yet and the call reverts
+ */
+async function estimateGasLimit(
+  apm: Apm,
+  tx: { to: string; data: string; from?: string },
+  { fallback, gasMargin }: { fallback: number; gasMargin: number }
+): Promise<number> {
+  try {
+    const gas = await apm.provider.estimateGas(tx);
+    return Math.ceil((gas.toNumber() * (100 + gasMargin)) / 100);
+  } catch (e) {
+    return fallback;
+  }
+}
+
+/**
+ * Returns EIP-1559 fee suggestions in wei, or nothing if the provider's
+ * network does not support them
+ */
+async function getFeeSuggestions(
+  apm: Apm
+): Promise<{ maxFeePerGas?: string; maxPriorityFeePerGas?: string }> {
+  try {
+    const {
+      maxFeePerGas,
+      maxPriorityFeePerGas
+    } = await apm.provider.getFeeData();
+    if (!maxFeePerGas || !maxPriorityFeePerGas) return {};
+    return {
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString()
+    };
+  } catch (e) {
+    return {};
+  }
+}
@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import Listr from "listr";
+import { Apm } from "../utils/Apm";
+import { defaultDir } from "../params";
+import {
+  getSafeNonce,
+  getSafeTxBuilderBatch,
+  getSafeTxHash
+} from "../utils/safe";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Network
+} from "../types";
+
+/**
+ * Exports the transaction generated by `generatePublishTx` as a
+ * Safe Transaction Builder batch, to be executed by a Safe that controls
+ * the repo. Also computes the SafeTx hash for the current Safe nonce.
+ * The batch is written next to releases.json, since there's no build
+ * directory when publishing an existing release
+ */
+export function generateSafeTx({
+  dir = defaultDir,
+  safeAddress,
+  ethProvider,
+  network,
+  verbose,
+  silent
+}: {
+  safeAddress: string;
+  ethProvider: string;
+  network?: Network;
+} & CliGlobalOptions): Listr<ListrContextBuildAndPublish> {
+  const apm = new Apm(ethProvider, network);
+
+  return new Listr<ListrContextBuildAndPublish>(
+    [
+      {
+        title: "Generate Safe transaction",
+        task: async (ctx, task) => {
+          const { txData } = ctx;
+          if (!txData) throw Error("Missing ctx.txData");
+
+          const batch = getSafeTxBuilderBatch(txData, safeAddress);
+          const batchPath = path.join(
+            dir,
+            `safe-tx-builder_${txData.currentVersion}.json`
+          );
+          fs.writeFileSync(batchPath, JSON.stringify(batch, null, 2));
+          ctx.safeTx = { safeAddress, batchPath };
+
+          // The SafeTx hash is optional, the batch can be imported anyway
+          try {
+            const nonce = await getSafeNonce(apm.provider, safeAddress);
+            const safeTxHash = getSafeTxHash({ txData, safeAddress, nonce });
+            ctx.safeTx = { ...ctx.safeTx, nonce, safeTxHash };
+          } catch (e) {
+            task.title =
+              task.title + ` (without SafeTx hash, can't get the Safe nonce)`;
+          }
+        }
+      }
+    ],
+    { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
+  );
+}
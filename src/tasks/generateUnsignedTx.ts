@@ -0,0 +1,49 @@
+import Listr from "listr";
+import { ethers } from "ethers";
+import { Apm } from "../utils/Apm";
+import { getEip681Uri, getUnsignedTx } from "../utils/unsignedTx";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Network
+} from "../types";
+
+/**
+ * Serializes the transaction generated by `generatePublishTx` without
+ * signing it, so it can be signed in an air-gapped machine and then
+ * broadcasted with the `broadcast` command
+ */
+export function generateUnsignedTx({
+  from,
+  ethProvider,
+  network,
+  verbose,
+  silent
+}: {
+  from: string;
+  ethProvider: string;
+  network?: Network;
+} & CliGlobalOptions): Listr<ListrContextBuildAndPublish> {
+  const apm = new Apm(ethProvider, network);
+
+  return new Listr<ListrContextBuildAndPublish>(
+    [
+      {
+        title: "Generate unsigned transaction",
+        task: async ctx => {
+          const { txData } = ctx;
+          if (!txData) throw Error("Missing ctx.txData");
+
+          const tx = await getUnsignedTx(apm.provider, txData, from);
+          ctx.unsignedTx = {
+            from,
+            nonce: Number(tx.nonce),
+            serialized: ethers.utils.serializeTransaction(tx),
+            uri: getEip681Uri(txData)
+          };
+        }
+      }
+    ],
+    { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
+  );
+}
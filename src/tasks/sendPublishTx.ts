@@ -0,0 +1,78 @@
+import Listr from "listr";
+import { ethers } from "ethers";
+import { Apm } from "../utils/Apm";
+import { readManifest } from "../utils/manifest";
+import { getPublishTxLink } from "../utils/getLinks";
+import { addReleaseTx } from "../utils/releaseRecord";
+import { defaultDir } from "../params";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Network
+} from "../types";
+
+/**
+ * Signs the transaction generated by `generatePublishTx` with `wallet`,
+ * broadcasts it and waits for `confirmations`.
+ * The tx hash is recorded in releases.json
+ */
+export function sendPublishTx({
+  dir = defaultDir,
+  wallet,
+  ethProvider,
+  network,
+  confirmations = 1,
+  verbose,
+  silent
+}: {
+  wallet: ethers.Wallet;
+  ethProvider: string;
+  network?: Network;
+  confirmations?: number;
+} & CliGlobalOptions): Listr<ListrContextBuildAndPublish> {
+  // Broadcast through the same provider used to generate the tx
+  const apm = new Apm(ethProvider, network);
+  const signer = wallet.connect(apm.provider);
+
+  const { manifest } = readManifest({ dir });
+
+  return new Listr<ListrContextBuildAndPublish>(
+    [
+      {
+        title: "Sign and broadcast transaction",
+        task: async (ctx, task) => {
+          const { txData } = ctx;
+          if (!txData) throw Error("Missing ctx.txData");
+
+          const tx = await signer.sendTransaction({
+            to: txData.to,
+            value: txData.value,
+            data: txData.data,
+            gasLimit: txData.gasLimit,
+            maxFeePerGas: txData.maxFeePerGas,
+            maxPriorityFeePerGas: txData.maxPriorityFeePerGas,
+            // The signer throws if the provider is connected to another chain
+            chainId: txData.chainId
+          });
+          ctx.txHash = tx.hash;
+          task.output = `Sent transaction ${tx.hash} from ${signer.address}`;
+
+          // Record the hash before waiting, in case the wait is interrupted
+          addReleaseTx({
+            dir,
+            version: manifest.version,
+            link: getPublishTxLink(txData),
+            txHash: tx.hash,
+            chainId: txData.chainId
+          });
+
+          task.output = `Waiting for ${confirmations} confirmation(s) of ${tx.hash}...`;
+          // Throws if the transaction reverts
+          await tx.wait(confirmations);
+          task.title = task.title + ` (tx hash: ${tx.hash})`;
+        }
+      }
+    ],
+    { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
+  );
+}
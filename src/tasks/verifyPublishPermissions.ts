@@ -0,0 +1,88 @@
+import Listr from "listr";
+import { Apm } from "../utils/Apm";
+import { readManifest } from "../utils/manifest";
+import { CliError, defaultDir } from "../params";
+import {
+  CliGlobalOptions,
+  ListrContextBuildAndPublish,
+  Network
+} from "../types";
+
+/**
+ * Checks that the publish transaction will be accepted before doing a
+ * long build. If the repo exists, checks the CREATE_VERSION_ROLE of the
+ * publisher. Otherwise simulates the call to `newRepoWithVersion`.
+ *
+ * The publisher is the signer or the Safe that will execute the tx, or else
+ * the developer. If the tx will be signed by the CLI errors abort the
+ * publish, otherwise they are shown as a warning since anyone may execute
+ * the tx later
+ */
+export function verifyPublishPermissions({
+  dir = defaultDir,
+  ethProvider,
+  network,
+  developerAddress,
+  signerAddress,
+  safeAddress,
+  verbose,
+  silent
+}: {
+  ethProvider: string;
+  network?: Network;
+  developerAddress?: string;
+  /** Address of the wallet that will sign the tx, if any */
+  signerAddress?: string;
+  /** Address of the Safe that will execute the tx, if any */
+  safeAddress?: string;
+  verbose?: boolean;
+  silent?: boolean;
+} & CliGlobalOptions): Listr<ListrContextBuildAndPublish> {
+  const apm = new Apm(ethProvider, network);
+  const { manifest } = readManifest({ dir });
+  const ensName = manifest.name;
+  const sender = signerAddress || safeAddress;
+  const publisher = sender || developerAddress;
+
+  return new Listr<ListrContextBuildAndPublish>(
+    [
+      {
+        title: "Verify publish permissions",
+        task: async (ctx, task) => {
+          const fail = (message: string): void => {
+            if (signerAddress) throw new CliError(message);
+            else task.skip(`Warning: ${message}`);
+          };
+
+          const repository = await apm.getRepoContract(ensName);
+          if (repository) {
+            if (!publisher)
+              return task.skip(`No publisher address to check for ${ensName}`);
+            if (!(await apm.canCreateVersion(ensName, publisher)))
+              fail(
+                `${publisher} does not have CREATE_VERSION_ROLE in the repo of ${ensName} (${repository.address})`
+              );
+          } else {
+            if (!developerAddress)
+              return task.skip(`No developer address to create ${ensName}`);
+            try {
+              await apm.verifyNewRepoWithVersion({
+                ensName,
+                developerAddress,
+                version: ctx.nextVersion || manifest.version,
+                from: sender
+              });
+            } catch (e) {
+              fail(
+                `The registry would reject creating the repo ${ensName}: ${
+                  e.reason || e.message
+                }`
+              );
+            }
+          }
+        }
+      }
+    ],
+    { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
+  );
+}
@@ -0,0 +1,72 @@
+import Listr from "listr";
+import { Apm } from "../utils/Apm";
+import { readManifest } from "../utils/manifest";
+import { readReleaseRecord } from "../utils/releaseRecord";
+import { CliError, defaultDir } from "../params";
+import { CliGlobalOptions, Network } from "../types";
+
+/**
+ * Checks that APM serves `version` with the release hash recorded in
+ * releases.json. If `timeout` is set, polls the Repo contract until the
+ * version is published, i.e. until someone executes the publish tx
+ */
+export function verifyPublishedVersion<T>({
+  dir = defaultDir,
+  ethProvider,
+  network,
+  version,
+  timeout,
+  pollInterval = 5 * 1000,
+  apm = new Apm(ethProvider, network),
+  verbose,
+  silent
+}: {
+  ethProvider: string;
+  network?: Network;
+  version: string;
+  /** Max time to wait for the version in ms, do not wait if not set */
+  timeout?: number;
+  pollInterval?: number;
+  apm?: Apm;
+} & CliGlobalOptions): Listr<T> {
+  const { manifest } = readManifest({ dir });
+  const ensName = manifest.name;
+
+  return new Listr<T>(
+    [
+      {
+        title: `Verify ${ensName} @ ${version} in APM`,
+        task: async (_, task) => {
+          const { hash } = readReleaseRecord(dir, version);
+          if (!hash)
+            throw new CliError(
+              `No release hash recorded in releases.json for version ${version}`
+            );
+
+          const timeoutTime = Date.now() + (timeout || 0);
+          let published = await apm.getVersion(ensName, version);
+          while (!published && Date.now() < timeoutTime) {
+            task.output = `Waiting for ${ensName} @ ${version} to be published...`;
+            await new Promise(r => setTimeout(r, pollInterval));
+            published = await apm.getVersion(ensName, version);
+          }
+
+          if (!published)
+            throw new CliError(
+              `Version ${version} of ${ensName} is not published in APM`
+            );
+
+          if (published.contentURI !== hash)
+            throw new CliError(
+              `MISMATCH: APM serves a different release for ${ensName} @ ${version}
+  contentURI in APM         : ${published.contentURI}
+  hash in releases.json     : ${hash}`
+            );
+
+          task.title = task.title + ` (${published.contentURI})`;
+        }
+      }
+    ],
+    { renderer: verbose ? "verbose" : silent ? "silent" : "default" }
+  );
+}
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import { ListrTask } from "listr";
+import { CliError } from "../params";
+import { ListrContextBuildAndPublish } from "../types";
+import { getReleaseFileSizes } from "../utils/releaseAvailability";
+import { urlWithoutCredentials } from "../utils/url";
+
+/**
+ * Checks that the uploaded release is reachable through a gateway and that
+ * it contains the files of buildDir with the same sizes.
+ * The node that received the upload always has the release, a gateway
+ * must fetch it from the IPFS network as users do
+ */
+export function verifyReleaseAvailability({
+  buildDir,
+  gatewayUrl,
+  timeout = 5 * 60 * 1000,
+  pollInterval = 5 * 1000
+}: {
+  buildDir: string;
+  /** "https://gateway.ipfs.dappnode.io" */
+  gatewayUrl: string;
+  /** Max time to wait for the release to be reachable in ms */
+  timeout?: number;
+  pollInterval?: number;
+}): ListrTask<ListrContextBuildAndPublish>[] {
+  return [
+    {
+      title: "Verify release availability",
+      task: async (ctx, task) => {
+        if (!ctx.releaseHash.startsWith("/ipfs/"))
+          return task.skip("Only supported for IPFS releases");
+
+        const sourceName = urlWithoutCredentials(gatewayUrl);
+
+        // All release files, including per-arch images
+        const expectedFiles = fs
+          .readdirSync(buildDir)
+          .filter(file => fs.statSync(path.join(buildDir, file)).isFile())
+          .map(file => ({
+            name: file,
+            size: fs.statSync(path.join(buildDir, file)).size
+          }));
+
+        const timeoutTime = Date.now() + timeout;
+        let fileSizes: { [fileName: string]: number | null } | undefined;
+        while (!fileSizes) {
+          try {
+            fileSizes = await getReleaseFileSizes({
+              releaseHash: ctx.releaseHash,
+              fileNames: expectedFiles.map(file => file.name),
+              gatewayUrl
+            });
+          } catch (e) {
+            if (Date.now() > timeoutTime)
+              return task.skip(
+                `Warning: release ${ctx.releaseHash} is not reachable through ${sourceName}: ${e.message}`
+              );
+            task.output = `Waiting for ${ctx.releaseHash} to be reachable through ${sourceName}...`;
+            await new Promise(r => setTimeout(r, pollInterval));
+          }
+        }
+
+        const errors: string[] = [];
+        const unknownSizes: string[] = [];
+        for (const { name, size } of expectedFiles) {
+          const availableSize = fileSizes[name];
+          if (availableSize === undefined) errors.push(`${name} not found`);
+          else if (availableSize === null) unknownSizes.push(name);
+          else if (availableSize !== size)
+            errors.push(`${name} size ${availableSize} != ${size}`);
+        }
+        if (errors.length > 0)
+          throw new CliError(
+            `Release ${
+              ctx.releaseHash
+            } served by ${sourceName} does not match the build:\n  - ${errors.join(
+              "\n  - "
+            )}`
+          );
+
+        // Gateways may omit the Content-Length of HEAD responses
+        if (unknownSizes.length > 0) {
+          task.output = `${sourceName} did not report the size of ${unknownSizes.join(
+            ", "
+          )}`;
+          task.title =
+            task.title + ` (size unknown: ${unknownSizes.join(", ")})`;
+        }
+      }
+    }
+  ];
+}
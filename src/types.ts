@@ -13,7 +13,14 @@ export interface ListrContextBuildAndPublish {
   releaseMultiHash: string;
   // create Github release
   nextVersion: string;
+  buildDir: string;
   txData: TxData;
+  // Sign and broadcast tx
+  txHash?: string;
+  // Export unsigned tx
+  unsignedTx?: UnsignedTxData;
+  // Export Safe tx
+  safeTx?: SafeTxData;
 }
 
 // Interal types
@@ -37,6 +44,29 @@ export const defaultArch = "linux/amd64";
 export type ReleaseType = "major" | "minor" | "patch";
 export const releaseTypes: ReleaseType[] = ["major", "minor", "patch"];
 
+export type Network = "mainnet" | "sepolia" | "gnosis" | "custom";
+export const networkNames: Network[] = [
+  "mainnet",
+  "sepolia",
+  "gnosis",
+  "custom"
+];
+
+export interface NetworkConfig {
+  /** Detected from the eth provider if not set */
+  chainId?: number;
+  /** Default eth provider: "dappnode", "infura" or an URL */
+  rpc: string;
+  /** ENS registry address, for chains with ENS */
+  ensRegistry?: string;
+  /**
+   * APM registry addresses by ENS domain, for chains without ENS.
+   * Repos are then resolved through the ENS instance of the registry
+   */
+  apmRegistries?: { [registryName: string]: string };
+  explorer?: string;
+}
+
 export type PackageImageLocal = {
   type: "local";
   imageTag: string;
@@ -53,10 +83,35 @@ export interface TxData {
   value: number;
   data: string;
   gasLimit: number;
+  /** EIP-1559 fee suggestions in wei, if supported by the provider */
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
   ensName: string;
   currentVersion: string;
   releaseMultiHash: string;
   developerAddress?: string;
+  chainId: number;
+  /** Aragon forwarder that executes the publish call through a DAO vote */
+  forwarder?: string;
+}
+
+export interface UnsignedTxData {
+  /** Address expected to sign the tx, its nonce is included */
+  from: string;
+  nonce: number;
+  /** RLP serialized unsigned transaction, to be signed offline */
+  serialized: string;
+  /** EIP-681 URI of the transaction */
+  uri: string;
+}
+
+export interface SafeTxData {
+  safeAddress: string;
+  /** Path to the Safe Transaction Builder batch JSON */
+  batchPath: string;
+  /** EIP-712 SafeTx hash, if the Safe nonce could be fetched */
+  safeTxHash?: string;
+  nonce?: number;
 }
 
 export interface TxDataShortKeys {
@@ -64,6 +119,11 @@ export interface TxDataShortKeys {
   v: string; // version
   h: string; // hash
   d?: string; // developerAddress
+  g?: string; // gasLimit
+  f?: string; // maxFeePerGas
+  p?: string; // maxPriorityFeePerGas
+  c?: string; // chainId
+  w?: string; // forwarder
 }
 
 export interface Manifest {
@@ -72,17 +132,35 @@ export interface Manifest {
   upstreamVersion?: string;
   upstreamRepo?: string;
   upstreamArg?: string;
+  shortDescription?: string;
   description?: string;
-  type?: string;
-  author?: string;
-  license?: string;
-  avatar?: string;
-  repository?: {
-    type?: string;
-    url?: string;
-    directory?: string;
+  type?: ManifestType;
+  chain?: ManifestChain;
+  mainService?: string;
+  dockerTimeout?: string;
+  dependencies?: ManifestDependencies;
+  requirements?: {
+    minimumDappnodeVersion?: string;
+  };
+  globalEnvs?: ManifestGlobalEnvs;
+  architectures?: Architecture[];
+  backup?: ManifestBackupItem[];
+  changelog?: string;
+  warnings?: ManifestWarnings;
+  updateAlerts?: ManifestUpdateAlert[];
+  disclaimer?: {
+    message: string;
+  };
+  style?: {
+    featuredBackground?: string;
+    featuredColor?: string;
+    featuredAvatarFilter?: string;
   };
-  categories?: string[];
+  exposable?: ManifestExposableService[];
+  author?: string;
+  contributors?: string[];
+  categories?: ManifestCategory[];
+  keywords?: string[];
   links?: {
     homepage?: string;
     ui?: string;
@@ -90,9 +168,97 @@ export interface Manifest {
     gateway?: string;
     [linkName: string]: string | undefined;
   };
-  architectures?: Architecture[];
+  repository?: {
+    type?: string;
+    url?: string;
+    directory?: string;
+  };
+  bugs?: {
+    url: string;
+  };
+  license?: string;
+  // Legacy props, not in the schema. Rejected by buildAndUpload
+  avatar?: string;
   // Extra injected props
-  setupWizard?: Record<string, string>;
+  setupWizard?: SetupWizard;
+}
+
+export type ManifestType = "service" | "library" | "dncore";
+
+export type ManifestChain =
+  | "ethereum"
+  | "ethereum2-beacon-chain-prysm"
+  | "bitcoin"
+  | "monero";
+
+export type ManifestCategory =
+  | "Blockchain"
+  | "Communications"
+  | "Developer tools"
+  | "ETH2.0"
+  | "Economic incentive"
+  | "Monitoring"
+  | "Payment channels"
+  | "Storage";
+
+export interface ManifestDependencies {
+  // "bitcoin.dnp.dappnode.eth": "^0.1.2", "swarm.dnp.dappnode.eth": "/ipfs/Qm..."
+  [dnpName: string]: string;
+}
+
+export interface ManifestWarnings {
+  onInstall?: string;
+  onUpdate?: string;
+  onReset?: string;
+  onRemove?: string;
+}
+
+export interface ManifestUpdateAlert {
+  from: string; // "0.1.x"
+  to?: string; // "^0.2.0", defaults to "*"
+  message: string;
+}
+
+export interface ManifestBackupItem {
+  name: string; // "keystore"
+  path: string; // "/root/.raiden/secret/keystore"
+  service?: string; // "validator"
+}
+
+export interface ManifestExposableService {
+  name: string; // "Geth JSON RPC"
+  description?: string;
+  serviceName?: string; // "beacon_chain"
+  port: number; // 8545
+}
+
+export type ManifestGlobalEnvs =
+  | { all?: boolean }
+  | { envs: string[]; services: string[] }[];
+
+export type SetupWizardTarget =
+  | { type: "environment"; name: string; service?: string }
+  | { type: "portMapping"; containerPort: string; service?: string }
+  | { type: "namedVolumeMountpoint"; volumeName: string }
+  | { type: "allNamedVolumesMountpoint" }
+  | { type: "fileUpload"; path: string; service?: string };
+
+export interface SetupWizardField {
+  id: string;
+  target?: SetupWizardTarget;
+  title: string;
+  description: string;
+  secret?: boolean;
+  pattern?: string;
+  patternErrorMessage?: string;
+  enum?: string[];
+  required?: boolean;
+  if?: Record<string, unknown>;
+}
+
+export interface SetupWizard {
+  version: "2";
+  fields: SetupWizardField[];
 }
 
 export interface ComposeVolumes {
@@ -116,17 +282,35 @@ export interface ComposeServiceBuild {
   args?: { [varName: string]: string }; // { buildno: 1}
 }
 
+// Long syntax of a service volume
+export interface ComposeServiceVolume {
+  type: string; // "volume", "bind", "tmpfs"
+  source?: string; // "data", "/etc/hostname"
+  target: string; // "/root/.ethereum"
+  read_only?: boolean;
+}
+
+// Long syntax of a service port
+export interface ComposeServicePort {
+  target: number; // 80
+  published?: number | string; // 8080
+  protocol?: string; // "tcp", "udp"
+  mode?: string; // "host", "ingress"
+}
+
 export interface ComposeService {
   build?: string | ComposeServiceBuild;
   container_name?: string; // "DAppNodeCore-dappmanager.dnp.dappnode.eth";
   image: string; // "dappmanager.dnp.dappnode.eth:0.2.6";
-  volumes?: string[]; // ["dappmanagerdnpdappnodeeth_data:/usr/src/app/dnp_repo/"];
-  ports?: string[];
+  volumes?: (string | ComposeServiceVolume)[]; // ["dappmanagerdnpdappnodeeth_data:/usr/src/app/dnp_repo/"];
+  ports?: (string | number | ComposeServicePort)[];
   environment?: { [key: string]: string } | string[];
   labels?: { [labelName: string]: string };
   env_file?: string[];
   // ipv4_address: "172.33.1.7";
-  networks?: string[] | { [networkName: string]: { ipv4_address: string } };
+  networks?:
+    | string[]
+    | { [networkName: string]: { ipv4_address?: string; aliases?: string[] } };
   dns?: string; // "172.33.1.2";
   restart?: string; // "always";
   privileged?: boolean;
@@ -134,8 +318,8 @@ export interface ComposeService {
   cap_drop?: string[];
   devices?: string[];
   network_mode?: string;
-  command?: string;
-  entrypoint?: string;
+  command?: string | string[];
+  entrypoint?: string | string[];
   // Logging
   logging?: {
     driver?: string;
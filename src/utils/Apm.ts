@@ -3,6 +3,8 @@ import { arrayToSemver } from "../utils/arrayToSemver";
 import repoAbi from "../contracts/RepoAbi.json";
 import registryAbi from "../contracts/ApmRegistryAbi.json";
 import { semverToArray } from "./semverToArray";
+import { defaultNetwork, networks } from "../params";
+import { Network, NetworkConfig } from "../types";
 
 function getEthereumProviderUrl(provider = "dappnode"): string {
   if (provider === "dappnode") {
@@ -18,6 +20,12 @@ function getEthereumProviderUrl(provider = "dappnode"): string {
   }
 }
 
+const forwarderAbi = ["function forward(bytes _evmScript)"];
+const ensAbi = ["function resolver(bytes32 node) view returns (address)"];
+const resolverAbi = ["function addr(bytes32 node) view returns (address)"];
+
+const isZeroAddress = (address: string): boolean => parseInt(address) === 0;
+
 /**
  * @param provider user selected provider. Possible values:
  * - null
@@ -25,18 +33,38 @@ function getEthereumProviderUrl(provider = "dappnode"): string {
  * - "infura"
  * - "http://localhost:8545"
  * - "ws://localhost:8546"
+ * @param network "mainnet" (default), "sepolia", "gnosis", "custom"
  * @return apm instance
  */
 export class Apm {
   provider: ethers.providers.JsonRpcProvider;
+  network: NetworkConfig;
 
-  constructor(providerId: string) {
+  constructor(providerId: string, network: Network = defaultNetwork) {
     // Initialize ens and web3 instances
     // Use http Ids to avoid opened websocket connection
     // This application does not need subscriptions and performs very few requests per use
     const providerUrl = getEthereumProviderUrl(providerId);
 
-    this.provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    this.network = networks[network];
+    // With an explicit network ethers throws if the provider's chain differs
+    // Custom networks use the chain detected from the provider
+    this.provider = this.network.chainId
+      ? new ethers.providers.JsonRpcProvider(providerUrl, {
+          name: network,
+          chainId: this.network.chainId,
+          ensAddress: this.network.ensRegistry
+        })
+      : new ethers.providers.JsonRpcProvider(providerUrl);
+  }
+
+  /**
+   * Chain ID of the network, or of the eth provider for custom networks
+   */
+  async getChainId(): Promise<number> {
+    if (this.network.chainId) return this.network.chainId;
+    const { chainId } = await this.provider.getNetwork();
+    return chainId;
   }
 
   // Ens throws if a node is not found
@@ -48,6 +76,7 @@ export class Apm {
   //
   // Change behaviour to return null if not found
   async resolve(ensDomain: string): Promise<string | null> {
+    if (!this.network.ensRegistry) return await this.resolveInApm(ensDomain);
     try {
       return await this.provider.resolveName(ensDomain);
     } catch (e) {
@@ -57,6 +86,34 @@ export class Apm {
     }
   }
 
+  /**
+   * For chains without ENS, resolve with the ENS instance deployed
+   * by the APM registry of the domain
+   * ENS domain:      admin.dnp.dappnode.eth
+   * Registry domain:       dnp.dappnode.eth
+   */
+  private async resolveInApm(ensDomain: string): Promise<string | null> {
+    const registry = await this.getRegistryContract(ensDomain);
+    if (!registry) return null;
+
+    const ens = new ethers.Contract(
+      await registry.ens(),
+      ensAbi,
+      this.provider
+    );
+    const node = ethers.utils.namehash(ensDomain);
+    const resolverAddress: string = await ens.resolver(node);
+    if (isZeroAddress(resolverAddress)) return null;
+
+    const resolver = new ethers.Contract(
+      resolverAddress,
+      resolverAbi,
+      this.provider
+    );
+    const address: string = await resolver.addr(node);
+    return isZeroAddress(address) ? null : address;
+  }
+
   /**
    * Get the lastest version of an APM repo contract for an ENS domain.
    *
@@ -89,6 +146,138 @@ export class Apm {
     }
   }
 
+  /**
+   * Get a published version of an APM repo contract for an ENS domain.
+   *
+   * @param ensName: "admin.dnp.dappnode.eth"
+   * @param version: "0.1.0"
+   * @return the version with the contentURI decoded as utf8, i.e.
+   * "/ipfs/QmNqDvqAyy3pN3PvymB6chM7S1FgYyive8LosVKUuaDdfd",
+   * or null if the version is not published
+   */
+  async getVersion(
+    ensName: string,
+    version: string
+  ): Promise<ApmVersion | null> {
+    const repository = await this.getRepoContract(ensName);
+    if (!repository) return null;
+
+    try {
+      const res = await repository.getBySemanticVersion(semverToArray(version));
+      return parseApmVersion(res);
+    } catch (e) {
+      // The Repo contract reverts with REPO_INEXISTENT_VERSION
+      if (e.code === ethers.errors.CALL_EXCEPTION) return null;
+      e.message = `Error getting version ${version} of ${ensName}: ${e.message}`;
+      throw e;
+    }
+  }
+
+  /**
+   * Get all published versions of an APM repo contract for an ENS domain,
+   * with the block and timestamp of the tx that published them
+   *
+   * @param ensName: "admin.dnp.dappnode.eth"
+   * @return versions sorted by versionId, from oldest to latest
+   */
+  async getVersions(ensName: string): Promise<ApmVersionWithBlock[]> {
+    const repository = await this.getRepoContract(ensName);
+    if (!repository)
+      throw Error(`Error NOREPO: there is no repo for ${ensName}`);
+
+    const versionsCount = (await repository.getVersionsCount()).toNumber();
+    // Version IDs start at 1
+    const versionIds = Array.from({ length: versionsCount }, (_, i) => i + 1);
+    const versions = await Promise.all(
+      versionIds.map(async versionId => ({
+        versionId,
+        ...parseApmVersion(await repository.getByVersionId(versionId))
+      }))
+    );
+
+    // Some providers limit the block range of logs queries,
+    // then the versions are returned without block data
+    let events: ethers.Event[] = [];
+    try {
+      events = await repository.queryFilter(
+        repository.filters.NewVersion(),
+        0,
+        "latest"
+      );
+    } catch (e) {
+      return versions;
+    }
+
+    const blockTimestamps = new Map<number, number>();
+    for (const { blockNumber } of events)
+      if (!blockTimestamps.has(blockNumber))
+        blockTimestamps.set(
+          blockNumber,
+          (await this.provider.getBlock(blockNumber)).timestamp
+        );
+
+    return versions.map(version => {
+      const event = events.find(
+        e => e.args && e.args.versionId.toNumber() === version.versionId
+      );
+      if (!event) return version;
+      return {
+        ...version,
+        blockNumber: event.blockNumber,
+        timestamp: blockTimestamps.get(event.blockNumber),
+        txHash: event.transactionHash
+      };
+    });
+  }
+
+  /**
+   * Check in the repo's Aragon ACL if `address` can publish new versions
+   *
+   * @param ensName: "admin.dnp.dappnode.eth"
+   * @param address: "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B"
+   * @return true if `address` has the CREATE_VERSION_ROLE
+   */
+  async canCreateVersion(ensName: string, address: string): Promise<boolean> {
+    const repository = await this.getRepoContract(ensName);
+    if (!repository) throw Error(`Error NOREPO: no repo for ${ensName}`);
+    const role = await repository.CREATE_VERSION_ROLE();
+    return await repository.canPerform(address, role, []);
+  }
+
+  /**
+   * Simulates the creation of a new repo with `eth_call`.
+   * Throws with the revert reason if the registry would reject it,
+   * i.e. if the name is already taken or `from` can't create repos
+   *
+   * @param ensName: "new-repo.dnp.dappnode.eth"
+   */
+  async verifyNewRepoWithVersion({
+    ensName,
+    developerAddress,
+    version,
+    from
+  }: {
+    ensName: string;
+    developerAddress: string;
+    version: string;
+    from?: string;
+  }): Promise<void> {
+    const registry = await this.getRegistryContract(ensName);
+    if (!registry)
+      throw Error(`Error: there must exist a registry for DNP name ${ensName}`);
+    const shortName = ensName.split(".")[0];
+    // The content is not known yet, it doesn't affect the registry checks
+    const contentURI = "0x" + Buffer.from("/ipfs/", "utf8").toString("hex");
+    await registry.callStatic.newRepoWithVersion(
+      shortName,
+      developerAddress,
+      semverToArray(version),
+      ethers.constants.AddressZero,
+      contentURI,
+      ...(from ? [{ from }] : [])
+    );
+  }
+
   /**
    * Get the APM repo contract for an ENS domain.
    * ENS domain:      admin.dnp.dappnode.eth
@@ -113,12 +302,91 @@ export class Apm {
    */
   async getRegistryContract(ensName: string): Promise<ethers.Contract | null> {
     const repoId = ensName.split(".").slice(1).join(".");
-    const registryAddress = await this.resolve(repoId);
+    const registryAddress = this.network.ensRegistry
+      ? await this.resolve(repoId)
+      : getApmRegistryAddress(this.network, repoId);
     if (!registryAddress) return null;
     return new ethers.Contract(registryAddress, registryAbi, this.provider);
   }
 }
 
+export interface ApmVersion {
+  version: string;
+  contractAddress: string;
+  /** "/ipfs/QmNqDvqAyy3pN3PvymB6chM7S1FgYyive8LosVKUuaDdfd" */
+  contentURI: string;
+}
+
+export interface ApmVersionWithBlock extends ApmVersion {
+  versionId: number;
+  blockNumber?: number;
+  /** Unix timestamp in seconds */
+  timestamp?: number;
+  txHash?: string;
+}
+
+/**
+ * Parses the result of the Repo getters, decoding the contentURI as utf8.
+ * Not utf8 contentURIs are returned as hex
+ */
+function parseApmVersion(res: {
+  semanticVersion: string[];
+  contractAddress: string;
+  contentURI: string;
+}): ApmVersion {
+  let contentURI: string;
+  try {
+    contentURI = ethers.utils.toUtf8String(res.contentURI);
+  } catch (e) {
+    contentURI = res.contentURI;
+  }
+  return {
+    version: arrayToSemver(res.semanticVersion),
+    contractAddress: res.contractAddress,
+    contentURI
+  };
+}
+
+/**
+ * Registry address for chains without ENS, from the network config or
+ * the APM_REGISTRY_ADDRESS ENV
+ */
+function getApmRegistryAddress(
+  network: NetworkConfig,
+  registryName: string
+): string | null {
+  const apmRegistries = network.apmRegistries || {};
+  return (
+    apmRegistries[registryName] || process.env.APM_REGISTRY_ADDRESS || null
+  );
+}
+
+/**
+ * forward(bytes _evmScript)
+ *
+ * Wraps a call in an EVMScript with the CallsScript executor (spec id 1):
+ * [ spec id (4 bytes) | to (20 bytes) | calldata length (4 bytes) | calldata ]
+ * The Aragon forwarder (i.e. Voting or TokenManager) will execute the call
+ * after the DAO approves it
+ */
+export function encodeForwardCall({
+  to,
+  data
+}: {
+  to: string;
+  data: string;
+}): string {
+  const calldata = ethers.utils.arrayify(data);
+  const evmScript = ethers.utils.hexConcat([
+    "0x00000001", // CallsScript spec id
+    ethers.utils.getAddress(to),
+    ethers.utils.hexZeroPad(ethers.utils.hexlify(calldata.length), 4),
+    calldata
+  ]);
+  const forwarder = new ethers.utils.Interface(forwarderAbi);
+  return forwarder.encodeFunctionData("forward", [evmScript]);
+}
+
 /**
  * newVersion(
  *   uint16[3] _newSemanticVersion,
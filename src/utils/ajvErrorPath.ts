@@ -0,0 +1,48 @@
+import Ajv from "ajv";
+
+/**
+ * @param root "compose"
+ * @param path ["services", "geth", "volumes", 2]
+ * @returns "compose.services.geth.volumes[2]"
+ */
+export function formatErrorPath(
+  root: string,
+  path: (string | number)[]
+): string {
+  return path.reduce<string>(
+    (str, key) =>
+      typeof key === "number" ? `${str}[${key}]` : `${str}.${key}`,
+    root
+  );
+}
+
+/**
+ *
+ * @param root "compose"
+ * @param errorObject from AJV:
+ * {
+ *   keyword: "type",
+ *   dataPath: "/services/geth/volumes/2",
+ *   schemaPath: "#/definitions/stringArray/items/type",
+ *   params: { type: "string" },
+ *   message: "should be string"
+ * }
+ * @returns errorMessage:
+ * "compose.services.geth.volumes[2] should be string"
+ */
+export function processAjvError(
+  root: string,
+  errorObject: Ajv.ErrorObject
+): string {
+  const { dataPath, message, keyword, params } = errorObject;
+  const path = dataPath
+    .split("/")
+    .slice(1)
+    .map(key => key.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map(key => (/^\d+$/.test(key) ? parseInt(key) : key));
+  const extra =
+    keyword === "additionalProperties"
+      ? ` '${(params as Ajv.AdditionalPropertiesParams).additionalProperty}'`
+      : "";
+  return `${formatErrorPath(root, path)} ${message}${extra}`;
+}
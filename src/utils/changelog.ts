@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import { Github } from "../providers/github/Github";
+import { shell } from "./shell";
+
+export const changelogFileName = "CHANGELOG.md";
+
+interface GitCommit {
+  subject: string;
+  body: string;
+}
+
+const commitGroups: { title: string; types: string[] }[] = [
+  { title: "Features", types: ["feat"] },
+  { title: "Bug fixes", types: ["fix"] },
+  { title: "Performance", types: ["perf"] },
+  { title: "Other changes", types: [] }
+];
+
+/**
+ * Returns the changelog of `version`. An explicit section in the CHANGELOG.md
+ * takes precedence, otherwise it's generated from the commits and merged PRs
+ * since the previous `v*` tag
+ * @param github Used to fetch merged PR titles. Defaults to the local repo if
+ * a GITHUB_TOKEN is available
+ */
+export async function getChangelog({
+  dir,
+  version,
+  github
+}: {
+  dir: string;
+  version: string;
+  github?: Github;
+}): Promise<string> {
+  const changelogPath = path.join(dir, changelogFileName);
+  if (fs.existsSync(changelogPath)) {
+    const section = parseChangelogSection(
+      fs.readFileSync(changelogPath, "utf8"),
+      version
+    );
+    if (section) return section;
+  }
+
+  // Merged PR titles are only fetched if Github is available
+  if (!github && process.env.GITHUB_TOKEN) {
+    try {
+      github = Github.fromLocal(dir);
+    } catch (e) {
+      // Use merge commit bodies instead
+    }
+  }
+
+  const commits = await getCommitsSinceLastRelease(dir, version);
+  const titles: string[] = [];
+  for (const commit of commits) {
+    const title = await getCommitTitle(commit, github);
+    if (title) titles.push(title);
+  }
+  return formatChangelog(titles);
+}
+
+/**
+ * Returns the contents of the section of `version` in a CHANGELOG.md
+ * Supports headings such as `## [0.2.1] - 2020-10-01`, `## v0.2.1`, `### 0.2.1`
+ * @returns null if there's no section for `version`
+ */
+export function parseChangelogSection(
+  markdown: string,
+  version: string
+): string | null {
+  const escapedVersion = version.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const versionHeading = new RegExp(
+    `^(#{1,6})\\s+\\[?v?${escapedVersion}\\]?(\\s|$)`
+  );
+
+  const lines = markdown.split("\n");
+  const start = lines.findIndex(line => versionHeading.test(line));
+  if (start < 0) return null;
+
+  const level = (lines[start].match(versionHeading) || [])[1].length;
+  const sectionLines: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const heading = line.match(/^(#{1,6})\s/);
+    if (heading && heading[1].length <= level) break;
+    sectionLines.push(line);
+  }
+
+  return sectionLines.join("\n").trim() || null;
+}
+
+/**
+ * Groups conventional commit titles by type, keeping their order
+ * @param titles ["feat(geth): add metrics", "Bump upstream version (#12)"]
+ * @returns
+ * ```md
+ * **Features**
+ * - **geth:** add metrics
+ *
+ * **Other changes**
+ * - Bump upstream version (#12)
+ * ```
+ */
+export function formatChangelog(titles: string[]): string {
+  const breaking: string[] = [];
+  const groups = new Map<string, string[]>();
+
+  for (const title of titles) {
+    const conventional = title.match(/^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/);
+    if (!conventional) {
+      addToGroup(groups, "Other changes", title);
+      continue;
+    }
+
+    const [, type, scope, isBreaking, description] = conventional;
+    const entry = scope ? `**${scope}:** ${description}` : description;
+    if (isBreaking) {
+      breaking.push(entry);
+      continue;
+    }
+    const group =
+      commitGroups.find(g => g.types.includes(type.toLowerCase())) ||
+      commitGroups[commitGroups.length - 1];
+    addToGroup(groups, group.title, entry);
+  }
+
+  const formatList = (entries: string[]): string =>
+    entries.map(entry => `- ${entry}`).join("\n");
+
+  const sections: [string, string[]][] = [];
+  if (breaking.length > 0) sections.push(["Breaking changes", breaking]);
+  for (const { title } of commitGroups) {
+    const entries = groups.get(title);
+    if (entries) sections.push([title, entries]);
+  }
+
+  // Don't add headings to changelogs without conventional commits
+  if (sections.length === 1 && sections[0][0] === "Other changes")
+    return formatList(sections[0][1]);
+
+  return sections
+    .map(([title, entries]) => `**${title}**\n${formatList(entries)}`)
+    .join("\n\n");
+}
+
+function addToGroup(
+  groups: Map<string, string[]>,
+  title: string,
+  entry: string
+): void {
+  groups.set(title, [...(groups.get(title) || []), entry]);
+}
+
+/**
+ * Returns commits in the main line (merged PRs are a single merge commit)
+ * between the previous `v*` tag and HEAD of the repo at `dir`
+ */
+async function getCommitsSinceLastRelease(
+  dir: string,
+  version: string
+): Promise<GitCommit[]> {
+  const tags = await shell(
+    `git tag --list "v*" --sort=-v:refname --merged HEAD`,
+    { cwd: dir }
+  );
+  const previousTag = tags
+    .split("\n")
+    .map(tag => tag.trim())
+    .find(tag => tag && tag !== `v${version}`);
+
+  const range = previousTag ? `${previousTag}..HEAD` : "HEAD";
+  const log = await shell(
+    `git log ${range} --first-parent --format=%s%x1f%b%x1e`,
+    { cwd: dir }
+  );
+
+  return log
+    .split("\x1e")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [subject, body = ""] = entry.split("\x1f");
+      return { subject: subject.trim(), body: body.trim() };
+    });
+}
+
+/**
+ * Returns the PR title of merge commits and the subject of regular commits
+ * @returns null for commits that should not be in the changelog
+ */
+async function getCommitTitle(
+  { subject, body }: GitCommit,
+  github?: Github
+): Promise<string | null> {
+  // "Merge pull request #12 from dappnode/dapplion/bump-geth"
+  const mergePr = subject.match(/^Merge pull request #(\d+)/);
+  if (mergePr) {
+    const prNumber = parseInt(mergePr[1]);
+    if (github) {
+      try {
+        return `${await github.getPullRequestTitle(prNumber)} (#${prNumber})`;
+      } catch (e) {
+        // Fallback to the merge commit body, which defaults to the PR title
+      }
+    }
+    const bodyTitle = body.split("\n")[0].trim();
+    return bodyTitle ? `${bodyTitle} (#${prNumber})` : null;
+  }
+
+  // "Merge branch 'master' into dev"
+  if (/^Merge (branch|remote-tracking branch) /.test(subject)) return null;
+
+  return subject || null;
+}
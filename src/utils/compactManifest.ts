@@ -1,8 +1,5 @@
-import fs from "fs";
-import path from "path";
-import yaml from "js-yaml";
-import { releaseFiles } from "../params";
 import { readManifest, writeManifest } from "./manifest";
+import { readSetupWizardIfExists } from "./setupWizard";
 
 /**
  * Reads manifest and extra files in `buildDir` compacts them in the manifest
@@ -21,15 +18,3 @@ export function compactManifestIfCore(buildDir: string): void {
 
   writeManifest(manifest, format, { dir: buildDir });
 }
-
-function readSetupWizardIfExists(
-  buildDir: string
-): Record<string, string> | null {
-  const files = fs.readdirSync(buildDir);
-  const setupWizardFile = files.find(file =>
-    releaseFiles.setupWizard.regex.test(file)
-  );
-  if (!setupWizardFile) return null;
-  const setupWizardPath = path.join(buildDir, setupWizardFile);
-  return yaml.load(fs.readFileSync(setupWizardPath, "utf8"));
-}
@@ -2,7 +2,7 @@ import fs from "fs";
 import path from "path";
 import yaml from "js-yaml";
 import prettier from "prettier";
-import { Compose, PackageImage } from "../types";
+import { Compose, ComposeServiceVolume, PackageImage } from "../types";
 import {
   defaultComposeFileName,
   defaultDir,
@@ -13,6 +13,7 @@ import {
 import { toTitleCase } from "./format";
 import { mapValues, uniqBy } from "lodash";
 import { readFile } from "./file";
+import { updateYamlContents } from "./updateFileContents";
 
 interface ComposePaths {
   /** './folder', [optional] directory to load the compose from */
@@ -43,10 +44,24 @@ export function readCompose(paths?: ComposePaths): Compose {
 
 /**
  * Writes the docker-compose.
+ * If the compose already exists only the changed properties are edited,
+ * keeping its comments, key order and formatting
  */
 export function writeCompose(compose: Compose, paths?: ComposePaths): void {
   const composePath = getComposePath(paths);
-  fs.writeFileSync(composePath, stringifyCompose(compose));
+  const data = fs.existsSync(composePath)
+    ? updateComposeContents(fs.readFileSync(composePath, "utf8"), compose)
+    : stringifyCompose(compose);
+  fs.writeFileSync(composePath, data);
+}
+
+function updateComposeContents(data: string, compose: Compose): string {
+  try {
+    return updateYamlContents(data, compose);
+  } catch (e) {
+    // Overwrite files that can't be parsed
+    return stringifyCompose(compose);
+  }
 }
 
 /**
@@ -162,3 +177,40 @@ export function composeDeleteBuildProperties(paths?: ComposePaths): void {
   }
   writeCompose(compose, paths);
 }
+
+/**
+ * Parses a service volume in short or long syntax
+ * @param volume "data:/root/.ethereum", "/etc/hostname:/etc/host:ro",
+ * { type: "volume", source: "data", target: "/root/.ethereum" }
+ * @returns { name: "data", target: "/root/.ethereum" }, { target: "/etc/host" },
+ * name is only set for named volumes, null if the volume can't be parsed
+ */
+export function parseServiceVolume(
+  volume: string | ComposeServiceVolume
+): { name?: string; target: string } | null {
+  if (typeof volume === "string") {
+    const parts = volume.split(":");
+    // Anonymous volume "/root/.ethereum"
+    if (parts.length === 1) return { target: parts[0] };
+    const [source, target] = parts;
+    // Bind mounts are relative or absolute host paths
+    return /^[./~$]/.test(source) ? { target } : { name: source, target };
+  }
+
+  if (volume && typeof volume === "object" && volume.target)
+    return volume.type === "volume" && volume.source
+      ? { name: volume.source, target: volume.target }
+      : { target: volume.target };
+
+  return null;
+}
+
+/**
+ * Checks if a container path is inside a container directory
+ * @param filepath "/root/.ethereum/keystore"
+ * @param dir "/root/.ethereum"
+ */
+export function isPathInside(filepath: string, dir: string): boolean {
+  const relative = path.posix.relative(dir, filepath);
+  return !relative.startsWith("..") && !path.posix.isAbsolute(relative);
+}
@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
-import { releaseFilesDefaultNames } from "../params";
+import { CliError, releaseFilesDefaultNames } from "../params";
+import { prettyBytes } from "./format";
 
 interface FileConfig {
   regex: RegExp;
@@ -19,40 +20,68 @@ function getDefaultName(fileId: string): string | undefined {
 export function copyReleaseFile({
   fileConfig,
   fromDir,
-  toDir
+  toDir,
+  ignoreSizeLimits
 }: {
   fileConfig: FileConfig;
   fromDir: string;
   toDir: string;
+  ignoreSizeLimits?: boolean;
 }): void {
-  const files = fs.readdirSync(fromDir);
-  const matchingFiles = files.filter(file => fileConfig.regex.test(file));
+  const matchingFiles = findReleaseFiles(fileConfig, fromDir);
 
-  if (matchingFiles.length === 0) {
-    if (fileConfig.required) {
-      throw new NoFileFoundError(fileConfig, fromDir);
-    } else {
-      // Ignore
-    }
-  } else if (matchingFiles.length === 1) {
+  if (!ignoreSizeLimits)
+    for (const matchingFile of matchingFiles)
+      verifyReleaseFileSize(fileConfig, path.join(fromDir, matchingFile));
+
+  if (matchingFiles.length === 1) {
     fs.copyFileSync(
       path.join(fromDir, matchingFiles[0]),
       path.join(toDir, getDefaultName(fileConfig.id) || matchingFiles[0])
     );
   } else {
-    if (fileConfig.multiple) {
-      for (const matchingFile of matchingFiles) {
-        fs.copyFileSync(
-          path.join(fromDir, matchingFile),
-          path.join(toDir, matchingFile)
-        );
-      }
-    } else {
-      throw new TooManyFilesError(fileConfig, fromDir, matchingFiles);
+    for (const matchingFile of matchingFiles) {
+      fs.copyFileSync(
+        path.join(fromDir, matchingFile),
+        path.join(toDir, matchingFile)
+      );
     }
   }
 }
 
+/**
+ * Returns the files in `dir` matching a release file regex.
+ * Throws if a required file is missing or if there are too many files
+ * @returns ["docker-compose.yml"]
+ */
+export function findReleaseFiles(
+  fileConfig: FileConfig,
+  dir: string
+): string[] {
+  const files = fs.readdirSync(dir);
+  const matchingFiles = files.filter(file => fileConfig.regex.test(file));
+
+  if (matchingFiles.length === 0 && fileConfig.required)
+    throw new NoFileFoundError(fileConfig, dir);
+  if (matchingFiles.length > 1 && !fileConfig.multiple)
+    throw new TooManyFilesError(fileConfig, dir, matchingFiles);
+
+  return matchingFiles;
+}
+
+/**
+ * Throws if a release file is bigger than its `maxSize` declared in `releaseFiles`
+ * @param filepath "build_0.1.0/grafana-dashboard.json"
+ */
+export function verifyReleaseFileSize(
+  fileConfig: FileConfig,
+  filepath: string
+): void {
+  const size = fs.statSync(filepath).size;
+  if (size > fileConfig.maxSize)
+    throw new FileTooLargeError(fileConfig, filepath, size);
+}
+
 class NoFileFoundError extends Error {
   constructor(fileConfig: FileConfig, fromDir: string) {
     super(
@@ -81,3 +110,15 @@ class TooManyFilesError extends Error {
     );
   }
 }
+
+class FileTooLargeError extends CliError {
+  constructor(fileConfig: FileConfig, filepath: string, size: number) {
+    super(
+      `${fileConfig.id} ${filepath} is too large: ${prettyBytes(size)}. ` +
+        `Max size for ${fileConfig.id} files is ${prettyBytes(
+          fileConfig.maxSize
+        )}. ` +
+        `Use --ignore_size_limits to skip this check for local testing`
+    );
+  }
+}
@@ -7,6 +7,21 @@ export function toTitleCase(str: string): string {
   });
 }
 
+/**
+ * Pretty print a size in bytes with decimal (SI) units
+ * @param bytes 10e6
+ * @returns "10 MB"
+ */
+export function prettyBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let i = 0;
+  while (bytes >= 1000 && i < units.length - 1) {
+    bytes /= 1000;
+    i++;
+  }
+  return `${parseFloat(bytes.toFixed(2))} ${units[i]}`;
+}
+
 /**
  * - Strip container prefix
  * - Strip .dappnode, .eth, .dnp
@@ -1,7 +1,7 @@
 import querystring from "querystring";
 import { URL } from "url";
-import { publishTxAppUrl } from "../params";
-import { TxData } from "../types";
+import { networks, publishTxAppUrl } from "../params";
+import { Network, TxData, TxDataShortKeys } from "../types";
 
 const adminUiBaseUrl = "http://my.dappnode/#";
 
@@ -11,16 +11,22 @@ const adminUiBaseUrl = "http://my.dappnode/#";
  */
 export function getPublishTxLink(txData: TxData): string {
   // txData => Admin UI link
-  const txDataShortKeys: { [key: string]: string } = {
+  const txDataShortKeys: TxDataShortKeys = {
     r: txData.ensName,
     v: txData.currentVersion,
-    h: txData.releaseMultiHash
+    h: txData.releaseMultiHash,
+    g: String(txData.gasLimit),
+    c: String(txData.chainId)
   };
-  // Only add developerAddress if necessary to not pollute the link
+  // Only add optional fields if necessary to not pollute the link
   if (txData.developerAddress) txDataShortKeys.d = txData.developerAddress;
+  if (txData.forwarder) txDataShortKeys.w = txData.forwarder;
+  if (txData.maxFeePerGas) txDataShortKeys.f = txData.maxFeePerGas;
+  if (txData.maxPriorityFeePerGas)
+    txDataShortKeys.p = txData.maxPriorityFeePerGas;
 
   const url = new URL(publishTxAppUrl);
-  url.search = querystring.stringify(txDataShortKeys);
+  url.search = querystring.stringify({ ...txDataShortKeys });
   return url.toString();
 }
 
@@ -31,3 +37,14 @@ export function getPublishTxLink(txData: TxData): string {
 export function getInstallDnpLink(releaseMultiHash: string): string {
   return `${adminUiBaseUrl}/installer/${encodeURIComponent(releaseMultiHash)}`;
 }
+
+/**
+ * Get link to a transaction in the block explorer of its network
+ * @param network "mainnet"
+ * @param txHash
+ */
+export function getExplorerTxLink(network: Network, txHash: string): string {
+  const { explorer } = networks[network];
+  // Custom networks have no known explorer
+  return explorer ? `${explorer}/tx/${txHash}` : txHash;
+}
@@ -0,0 +1,217 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { ethers } from "ethers";
+
+/**
+ * Computes the CIDv0 of the files the uploaders send, without an IPFS node.
+ * Uses the default settings of `ipfs add`:
+ * - Files are split in chunks of 262144 bytes (size-262144 chunker)
+ * - Chunks are UnixFS File dag-pb leaves (no raw leaves with CIDv0)
+ * - Multi-chunk files are arranged in a balanced DAG of 174 links per node
+ * - Directories are UnixFS Directory dag-pb nodes with links sorted by name
+ *
+ * It does NOT match `ipfs add -r`: only files are uploaded by `ipfsAddFromFs`,
+ * so hidden files are hashed (`ipfs add -r` skips them without `--hidden`) and
+ * empty sub-directories are ignored (`ipfs add -r` keeps them)
+ */
+
+const chunkSize = 262144;
+const maxLinksPerNode = 174;
+
+// UnixFS Data.DataType
+const unixfsDirectory = 1;
+const unixfsFile = 2;
+
+interface DagLink {
+  name: string;
+  /** Multihash of the node */
+  hash: Buffer;
+  /** Size of the node plus the size of all its descendants */
+  tsize: number;
+}
+
+interface FileDagNode extends DagLink {
+  /** Size of the file contents under this node */
+  filesize: number;
+}
+
+/**
+ * @param dirOrFilePath "build_0.1.0"
+ * @returns "/ipfs/Qm..."
+ */
+export async function computeIpfsHash(dirOrFilePath: string): Promise<string> {
+  const { hash } = await hashPath(dirOrFilePath);
+  return `/ipfs/${ethers.utils.base58.encode(hash)}`;
+}
+
+async function hashPath(filePath: string): Promise<DagLink> {
+  if (fs.lstatSync(filePath).isDirectory()) {
+    const links: DagLink[] = [];
+    for (const name of fs.readdirSync(filePath)) {
+      const childPath = path.join(filePath, name);
+      if (isEmptyDir(childPath)) continue;
+      links.push({ ...(await hashPath(childPath)), name });
+    }
+    return hashNode(
+      links.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)),
+      encodeUnixfs({ type: unixfsDirectory })
+    );
+  } else {
+    return hashFile(filePath);
+  }
+}
+
+/**
+ * Chunks are read one by one, so only the hashes are kept in memory
+ */
+async function hashFile(filePath: string): Promise<FileDagNode> {
+  const leaves: FileDagNode[] = [];
+  const fd = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(chunkSize);
+    for (;;) {
+      const { bytesRead } = await fd.read(buffer, 0, chunkSize, null);
+      // An empty file is a single leaf without data
+      if (bytesRead === 0 && leaves.length > 0) break;
+      const chunk = buffer.slice(0, bytesRead);
+      leaves.push({
+        ...hashNode(
+          [],
+          encodeUnixfs({
+            type: unixfsFile,
+            data: bytesRead > 0 ? chunk : undefined,
+            filesize: bytesRead
+          })
+        ),
+        filesize: bytesRead
+      });
+      if (bytesRead < chunkSize) break;
+    }
+  } finally {
+    await fd.close();
+  }
+
+  if (leaves.length === 1) return leaves[0];
+
+  let depth = 1;
+  while (Math.pow(maxLinksPerNode, depth) < leaves.length) depth++;
+  return buildBalancedNode(leaves, depth);
+}
+
+/**
+ * Node at `depth` of a balanced DAG, its children are filled left to right
+ * with full sub-trees of depth - 1
+ */
+function buildBalancedNode(leaves: FileDagNode[], depth: number): FileDagNode {
+  const leavesPerChild = Math.pow(maxLinksPerNode, depth - 1);
+  const children: FileDagNode[] = [];
+  for (let i = 0; i < leaves.length; i += leavesPerChild) {
+    const childLeaves = leaves.slice(i, i + leavesPerChild);
+    children.push(
+      depth === 1 ? childLeaves[0] : buildBalancedNode(childLeaves, depth - 1)
+    );
+  }
+
+  const blocksizes = children.map(child => child.filesize);
+  const filesize = blocksizes.reduce((total, size) => total + size, 0);
+  return {
+    ...hashNode(
+      children.map(child => ({ ...child, name: "" })),
+      encodeUnixfs({ type: unixfsFile, filesize, blocksizes })
+    ),
+    filesize
+  };
+}
+
+function hashNode(links: DagLink[], data: Buffer): DagLink {
+  const node = encodePbNode(links, data);
+  const digest = crypto.createHash("sha256").update(node).digest();
+  return {
+    name: "",
+    // sha2-256 multihash: <code 0x12><length 0x20><digest>
+    hash: Buffer.concat([Buffer.from([0x12, 0x20]), digest]),
+    tsize: links.reduce((total, link) => total + link.tsize, node.length)
+  };
+}
+
+function isEmptyDir(filePath: string): boolean {
+  return (
+    fs.lstatSync(filePath).isDirectory() &&
+    fs
+      .readdirSync(filePath)
+      .every(name => isEmptyDir(path.join(filePath, name)))
+  );
+}
+
+// Protobuf encoding
+
+/**
+ * message Data {
+ *   required DataType Type = 1;
+ *   optional bytes Data = 2;
+ *   optional uint64 filesize = 3;
+ *   repeated uint64 blocksizes = 4;
+ * }
+ */
+function encodeUnixfs({
+  type,
+  data,
+  filesize,
+  blocksizes = []
+}: {
+  type: number;
+  data?: Buffer;
+  filesize?: number;
+  blocksizes?: number[];
+}): Buffer {
+  const fields = [encodeVarintField(1, type)];
+  if (data) fields.push(encodeBytesField(2, data));
+  if (filesize !== undefined) fields.push(encodeVarintField(3, filesize));
+  for (const blocksize of blocksizes)
+    fields.push(encodeVarintField(4, blocksize));
+  return Buffer.concat(fields);
+}
+
+/**
+ * message PBLink { optional bytes Hash = 1; optional string Name = 2; optional uint64 Tsize = 3; }
+ * message PBNode { repeated PBLink Links = 2; optional bytes Data = 1; }
+ * Links are encoded before Data, as go-ipfs does
+ */
+function encodePbNode(links: DagLink[], data: Buffer): Buffer {
+  const fields = links.map(link =>
+    encodeBytesField(
+      2,
+      Buffer.concat([
+        encodeBytesField(1, link.hash),
+        encodeBytesField(2, Buffer.from(link.name, "utf8")),
+        encodeVarintField(3, link.tsize)
+      ])
+    )
+  );
+  fields.push(encodeBytesField(1, data));
+  return Buffer.concat(fields);
+}
+
+function encodeBytesField(fieldNumber: number, value: Buffer): Buffer {
+  return Buffer.concat([
+    encodeVarint((fieldNumber << 3) | 2),
+    encodeVarint(value.length),
+    value
+  ]);
+}
+
+function encodeVarintField(fieldNumber: number, value: number): Buffer {
+  return Buffer.concat([encodeVarint(fieldNumber << 3), encodeVarint(value)]);
+}
+
+function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  // Use division instead of bitwise ops, files may be larger than 2^31 bytes
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
@@ -5,6 +5,7 @@ import prettier from "prettier";
 import { defaultDir, releaseFiles } from "../params";
 import { Manifest, ManifestFormat } from "../types";
 import { readFile } from "./file";
+import { updateJsonContents, updateYamlContents } from "./updateFileContents";
 
 export interface ManifestPaths {
   /** './folder', [optional] directory to load the manifest from */
@@ -44,6 +45,8 @@ export function readManifest(
 
 /**
  * Writes a manifest. Without arguments defaults to write the manifest at './dappnode_package.json'
+ * If the manifest already exists only the changed properties are edited,
+ * keeping its comments, key order and formatting
  */
 export function writeManifest(
   manifest: Manifest,
@@ -51,7 +54,29 @@ export function writeManifest(
   paths?: ManifestPaths
 ): void {
   const manifestPath = getManifestPath(format, paths);
-  fs.writeFileSync(manifestPath, stringifyJson(manifest, format));
+  const data = fs.existsSync(manifestPath)
+    ? updateManifestContents(
+        fs.readFileSync(manifestPath, "utf8"),
+        manifest,
+        format
+      )
+    : stringifyJson(manifest, format);
+  fs.writeFileSync(manifestPath, data);
+}
+
+function updateManifestContents(
+  data: string,
+  manifest: Manifest,
+  format: ManifestFormat
+): string {
+  try {
+    return format === ManifestFormat.json
+      ? updateJsonContents(data, manifest)
+      : updateYamlContents(data, manifest);
+  } catch (e) {
+    // Overwrite files that can't be parsed
+    return stringifyJson(manifest, format);
+  }
 }
 
 /**
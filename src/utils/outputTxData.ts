@@ -1,5 +1,6 @@
 import fs from "fs";
 import chalk from "chalk";
+import { ethers } from "ethers";
 import { getPublishTxLink } from "./getLinks";
 import { TxData } from "../types";
 import { printObject } from "./print";
@@ -15,12 +16,7 @@ export function outputTxData({
 }): void {
   const adminUiLink = getPublishTxLink(txData);
 
-  const txDataToPrint = {
-    To: txData.to,
-    Value: txData.value,
-    Data: txData.data,
-    "Gas limit": txData.gasLimit
-  };
+  const txDataToPrint = getTxDataToPrint(txData);
 
   const txDataString = printObject(
     txDataToPrint,
@@ -74,3 +70,30 @@ ${chalk.gray(
 `);
   }
 }
+
+/**
+ * Human readable tx data, fees are shown in gwei
+ */
+export function getTxDataToPrint(
+  txData: TxData
+): { [key: string]: string | number } {
+  const txDataToPrint: { [key: string]: string | number } = {
+    To: txData.to,
+    Value: txData.value,
+    Data: txData.data,
+    "Gas limit": txData.gasLimit,
+    "Chain ID": txData.chainId
+  };
+  if (txData.forwarder) txDataToPrint["Forwarder"] = txData.forwarder;
+  if (txData.maxFeePerGas)
+    txDataToPrint["Max fee per gas"] = formatGwei(txData.maxFeePerGas);
+  if (txData.maxPriorityFeePerGas)
+    txDataToPrint["Max priority fee per gas"] = formatGwei(
+      txData.maxPriorityFeePerGas
+    );
+  return txDataToPrint;
+}
+
+function formatGwei(wei: string): string {
+  return `${ethers.utils.formatUnits(wei, "gwei")} gwei`;
+}
@@ -0,0 +1,44 @@
+import got from "got";
+
+// Max time to resolve each request, unreachable content never resolves
+const requestTimeout = 30 * 1000;
+
+/**
+ * Fetches the size of the files of a release with HEAD requests to a
+ * gateway, to verify it's retrievable.
+ * Files not found in the release are not included in the result.
+ * Throws if the release is not reachable
+ * @param releaseHash "/ipfs/Qm..."
+ * @param fileNames ["dappnode_package.json", "docker-compose.yml"]
+ * @returns { "dappnode_package.json": 1042 }, null if the size is unknown
+ */
+export async function getReleaseFileSizes({
+  releaseHash,
+  fileNames,
+  gatewayUrl
+}: {
+  releaseHash: string;
+  fileNames: string[];
+  /** "https://ipfs.io" */
+  gatewayUrl: string;
+}): Promise<{ [fileName: string]: number | null }> {
+  const fileSizes: { [fileName: string]: number | null } = {};
+
+  for (const fileName of fileNames) {
+    const res = await got.head({
+      prefixUrl: gatewayUrl,
+      url: `${releaseHash.replace(/^\//, "")}/${fileName}`,
+      timeout: requestTimeout,
+      // The caller polls until the release is reachable
+      retry: 0,
+      throwHttpErrors: false
+    });
+    if (res.statusCode === 404) continue;
+    if (res.statusCode !== 200)
+      throw Error(`${fileName}: ${res.statusCode} ${res.statusMessage}`);
+    const contentLength = res.headers["content-length"];
+    fileSizes[fileName] = contentLength ? parseInt(contentLength) : null;
+  }
+
+  return fileSizes;
+}
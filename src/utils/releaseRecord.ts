@@ -6,6 +6,8 @@ import { stringifyJson } from "./manifest";
 interface ReleaseRecord {
   hash: string;
   link: string;
+  txHash?: string;
+  chainId?: number;
   uploadedTo: {
     [location: string]: string;
   };
@@ -17,14 +19,14 @@ interface ReleaseRecords {
 
 const fileName = "releases.json";
 
-function readReleaseRecords(dir: string): ReleaseRecords {
+export function readReleaseRecords(dir: string): ReleaseRecords {
   const releaseRecordPath = path.join(dir, fileName);
   return fs.existsSync(releaseRecordPath)
     ? JSON.parse(fs.readFileSync(releaseRecordPath, "utf8"))
     : {};
 }
 
-function readReleaseRecord(dir: string, version: string): ReleaseRecord {
+export function readReleaseRecord(dir: string, version: string): ReleaseRecord {
   const releaseRecord = readReleaseRecords(dir);
   return releaseRecord[version] || {};
 }
@@ -75,11 +77,19 @@ export function addReleaseRecord({
 export function addReleaseTx({
   dir,
   version,
-  link
+  link,
+  txHash,
+  chainId
 }: {
   dir: string;
   version: string;
   link: string;
+  txHash?: string;
+  chainId: number;
 }): void {
-  writeReleaseRecord(dir, version, { link });
+  writeReleaseRecord(dir, version, {
+    link,
+    chainId,
+    ...(txHash ? { txHash } : {})
+  });
 }
@@ -0,0 +1,97 @@
+import { ethers } from "ethers";
+import { TxData } from "../types";
+
+const safeAbi = ["function nonce() view returns (uint256)"];
+
+/**
+ * Safe Transaction Builder batch file, can be imported in the
+ * Transaction Builder app of the Safe UI
+ */
+export interface SafeTxBuilderBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    createdFromSafeAddress: string;
+  };
+  transactions: { to: string; value: string; data: string }[];
+}
+
+/**
+ * Batch with the publish transaction for the Safe at `safeAddress`
+ */
+export function getSafeTxBuilderBatch(
+  txData: TxData,
+  safeAddress: string
+): SafeTxBuilderBatch {
+  return {
+    version: "1.0",
+    chainId: String(txData.chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: `Publish ${txData.ensName} ${txData.currentVersion}`,
+      description: `Release hash ${txData.releaseMultiHash}`,
+      createdFromSafeAddress: safeAddress
+    },
+    transactions: [
+      { to: txData.to, value: String(txData.value), data: txData.data }
+    ]
+  };
+}
+
+/**
+ * EIP-712 hash of the SafeTx that owners must sign to execute the
+ * publish transaction, for Safe contracts >= v1.3.0
+ */
+export function getSafeTxHash({
+  txData,
+  safeAddress,
+  nonce
+}: {
+  txData: TxData;
+  safeAddress: string;
+  nonce: number;
+}): string {
+  return ethers.utils._TypedDataEncoder.hash(
+    { chainId: txData.chainId, verifyingContract: safeAddress },
+    {
+      SafeTx: [
+        { type: "address", name: "to" },
+        { type: "uint256", name: "value" },
+        { type: "bytes", name: "data" },
+        { type: "uint8", name: "operation" },
+        { type: "uint256", name: "safeTxGas" },
+        { type: "uint256", name: "baseGas" },
+        { type: "uint256", name: "gasPrice" },
+        { type: "address", name: "gasToken" },
+        { type: "address", name: "refundReceiver" },
+        { type: "uint256", name: "nonce" }
+      ]
+    },
+    {
+      to: txData.to,
+      value: txData.value,
+      data: txData.data,
+      operation: 0, // Call
+      safeTxGas: 0,
+      baseGas: 0,
+      gasPrice: 0,
+      gasToken: ethers.constants.AddressZero,
+      refundReceiver: ethers.constants.AddressZero,
+      nonce
+    }
+  );
+}
+
+/**
+ * Current nonce of the Safe, the next SafeTx must use it
+ */
+export async function getSafeNonce(
+  provider: ethers.providers.Provider,
+  safeAddress: string
+): Promise<number> {
+  const safe = new ethers.Contract(safeAddress, safeAbi, provider);
+  return (await safe.nonce()).toNumber();
+}
@@ -0,0 +1,20 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { releaseFiles } from "../params";
+import { SetupWizard } from "../types";
+
+/**
+ * Reads the setup-wizard file in `dir`, supports any format from its
+ * release file regex (`setup-wizard.json`, `setup-wizard.yml`, ...)
+ * @returns null if there's no setup-wizard file
+ */
+export function readSetupWizardIfExists(dir: string): SetupWizard | null {
+  const files = fs.readdirSync(dir);
+  const setupWizardFile = files.find(file =>
+    releaseFiles.setupWizard.regex.test(file)
+  );
+  if (!setupWizardFile) return null;
+  const setupWizardPath = path.join(dir, setupWizardFile);
+  return yaml.load(fs.readFileSync(setupWizardPath, "utf8"));
+}
@@ -24,6 +24,7 @@ export async function shell(
     timeout?: number;
     maxBuffer?: number;
     pipeToMain?: boolean;
+    cwd?: string;
     onData?: (data: string) => void;
   }
 ): Promise<string> {
@@ -31,19 +32,24 @@ export async function shell(
     timeout = defaultTimeout,
     maxBuffer = defaultMaxBuffer,
     pipeToMain = false,
+    cwd,
     onData
   } = options || {};
 
   return new Promise((resolve, reject): void => {
     const cmdStr = Array.isArray(cmd) ? cmd.join(" ") : cmd;
-    const proc = exec(cmdStr, { timeout, maxBuffer }, (err, stdout, stderr) => {
-      if (err) {
-        // Rethrow a typed error, and ignore the internal NodeJS stack trace
-        reject(new ShellError(err, { stdout, stderr, cmd: cmdStr }));
-      } else {
-        resolve(stdout.trim() || stderr);
+    const proc = exec(
+      cmdStr,
+      { timeout, maxBuffer, cwd },
+      (err, stdout, stderr) => {
+        if (err) {
+          // Rethrow a typed error, and ignore the internal NodeJS stack trace
+          reject(new ShellError(err, { stdout, stderr, cmd: cmdStr }));
+        } else {
+          resolve(stdout.trim() || stderr);
+        }
       }
-    });
+    );
     if (pipeToMain) {
       if (proc.stdout) proc.stdout.pipe(process.stdout);
       if (proc.stderr) proc.stderr.pipe(process.stderr);
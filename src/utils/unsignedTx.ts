@@ -0,0 +1,46 @@
+import { ethers } from "ethers";
+import { TxData } from "../types";
+
+/**
+ * Builds the publish transaction ready to be signed offline, with the
+ * nonce of `from`. Uses EIP-1559 fees if available in `txData`, otherwise
+ * a legacy transaction with the provider's gas price
+ */
+export async function getUnsignedTx(
+  provider: ethers.providers.Provider,
+  txData: TxData,
+  from: string
+): Promise<ethers.UnsignedTransaction> {
+  const nonce = await provider.getTransactionCount(from, "pending");
+  const tx: ethers.UnsignedTransaction = {
+    to: txData.to,
+    value: txData.value,
+    data: txData.data,
+    gasLimit: txData.gasLimit,
+    chainId: txData.chainId,
+    nonce
+  };
+
+  if (txData.maxFeePerGas && txData.maxPriorityFeePerGas)
+    return {
+      ...tx,
+      type: 2,
+      maxFeePerGas: txData.maxFeePerGas,
+      maxPriorityFeePerGas: txData.maxPriorityFeePerGas
+    };
+  else return { ...tx, gasPrice: await provider.getGasPrice() };
+}
+
+/**
+ * EIP-681 URI of the publish transaction.
+ * Note that `gasLimit` and `data` are not standard parameters of a contract
+ * call: EIP-681 only defines `gas`/`gasLimit` for value transfers, and has
+ * no key for raw calldata since the function call args can't express bytes
+ * arrays. Wallets that ignore them can't send the publish transaction, use
+ * the serialized unsigned tx instead
+ *
+ * ethereum:0xEe66...c455@1?value=0&gasLimit=300000&data=0x7305...
+ */
+export function getEip681Uri(txData: TxData): string {
+  return `ethereum:${txData.to}@${txData.chainId}?value=${txData.value}&gasLimit=${txData.gasLimit}&data=${txData.data}`;
+}
@@ -0,0 +1,487 @@
+import YAML from "yaml";
+import { Type } from "yaml/util";
+import {
+  Alias,
+  Collection,
+  Node,
+  Pair,
+  Scalar,
+  YAMLMap,
+  YAMLSeq
+} from "yaml/types";
+import { modify, applyEdits, parse, ParseError } from "jsonc-parser";
+import { isEqual } from "lodash";
+
+type Path = (string | number)[];
+
+/** `value === undefined` means the property at `path` must be deleted */
+interface ObjectEdit {
+  path: Path;
+  value: unknown;
+}
+
+/** Replaces the characters from `start` to `end` of a file with `text` */
+interface TextPatch {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Updates the contents of a YAML file to serialize `value` editing only the
+ * source of the nodes that changed, so comments, key order and formatting
+ * of the rest of the file are kept byte by byte.
+ * Anchors, aliases and `<<` merge keys are kept unless their value changed.
+ * If an edit can't be applied in place, i.e. it changes an anchored node,
+ * the whole document is serialized again
+ * @param data Current contents of the file
+ * @param value New value to serialize
+ */
+export function updateYamlContents(data: string, value: unknown): string {
+  // Resolve merge keys as js-yaml does when reading the file
+  const doc = YAML.parseDocument(data, { merge: true, keepCstNodes: true });
+  if (doc.errors.length > 0)
+    throw Error(`Error parsing YAML: ${doc.errors[0].message}`);
+
+  const edits = getObjectEdits(doc.toJSON(), value).map(edit =>
+    getYamlEditTarget(doc, edit, value)
+  );
+  // Multiple edits through the same alias replace it once
+  const targets = edits.filter(
+    (edit, i) =>
+      !edits.some(
+        (other, j) =>
+          isPathPrefix(other.path, edit.path) &&
+          (other.path.length < edit.path.length || j < i)
+      )
+  );
+
+  const patched = patchYamlContents(doc, data, targets, value);
+  if (patched !== null) return patched;
+
+  // Serialize the whole document with the edits applied to its nodes
+  for (const { path, value: newValue } of targets) {
+    const node = path.length > 0 ? doc.getIn(path, true) : undefined;
+    if (path.length === 0) doc.contents = YAML.createNode(newValue);
+    else if (newValue === undefined) doc.deleteIn(path);
+    // Keep the quoting style of existing scalars
+    else if (node instanceof Scalar && !isCollection(newValue))
+      node.value = newValue;
+    else doc.setIn(path, YAML.createNode(newValue));
+  }
+
+  return doc.toString();
+}
+
+/**
+ * Applies `edits` patching the source of the edited nodes only.
+ * Returns null if some edit can't be applied in place
+ */
+function patchYamlContents(
+  doc: YAML.Document,
+  data: string,
+  edits: ObjectEdit[],
+  value: unknown
+): string | null {
+  const patches: TextPatch[] = [];
+  for (const edit of edits) {
+    const patch = getYamlPatch(doc, data, edit, value);
+    if (!patch) return null;
+    patches.push(patch);
+  }
+  const patched = applyTextPatches(data, patches);
+  if (patched === null) return null;
+
+  // Check the result, in case a patch breaks the structure around it
+  const patchedDoc = YAML.parseDocument(patched, { merge: true });
+  return patchedDoc.errors.length === 0 &&
+    getObjectEdits(patchedDoc.toJSON(), value).length === 0
+    ? patched
+    : null;
+}
+
+/**
+ * Computes the patch of the source that applies `edit`:
+ * - Scalars are replaced in place, keeping their quoting style
+ * - Edits inside a flow collection, i.e. `[3500, "13000:13000"]`, replace
+ *   the outermost flow collection
+ * - Edits of block collections add, replace or delete a pair or item
+ * Returns null if the edit can't be applied in place
+ */
+function getYamlPatch(
+  doc: YAML.Document,
+  data: string,
+  edit: ObjectEdit,
+  value: unknown
+): TextPatch | null {
+  const { path, value: newValue } = edit;
+  if (path.length === 0) return null;
+  const parentPath = path.slice(0, -1);
+  const key = path[path.length - 1];
+  const parent =
+    parentPath.length > 0 ? doc.getIn(parentPath, true) : doc.contents;
+  const pair =
+    parent instanceof YAMLMap
+      ? (parent.items as Pair[]).find(item => isPairKey(item, key))
+      : undefined;
+  const node: unknown =
+    parent instanceof YAMLMap
+      ? pair?.value
+      : parent instanceof YAMLSeq
+      ? parent.items[key as number]
+      : undefined;
+  const flowPath = getFlowCollectionPath(doc, parentPath);
+
+  if (
+    node instanceof Scalar &&
+    node.type !== Type.BLOCK_FOLDED &&
+    node.type !== Type.BLOCK_LITERAL &&
+    newValue !== undefined &&
+    !isCollection(newValue)
+  ) {
+    const scalar = new Scalar(newValue);
+    scalar.type = node.type;
+    const text = stringifyYaml(scalar).replace(/\n$/, "");
+    const range = getValueRange(node);
+    // Flow indicators must be quoted inside flow collections
+    if (range && !text.includes("\n") && !(flowPath && /[,[\]{}]/.test(text)))
+      return { ...range, text };
+  }
+
+  // Empty flow collections, i.e. `data: {}`, are replaced by block ones
+  if (
+    isFlowCollection(parent) &&
+    parent.items.length === 0 &&
+    parentPath.length > 0
+  )
+    return getYamlPatch(
+      doc,
+      data,
+      { path: parentPath, value: getIn(value, parentPath) },
+      value
+    );
+  if (flowPath)
+    return flowPath.length > 0
+      ? getFlowCollectionPatch(doc, flowPath, getIn(value, flowPath))
+      : null;
+  if (isFlowCollection(node) && node.items.length > 0 && isCollection(newValue))
+    return getFlowCollectionPatch(doc, path, newValue);
+
+  // The aliases of an anchored node would change too
+  if (node instanceof Node && doc.anchors.getName(node)) return null;
+  if (parent instanceof YAMLMap)
+    return getPairPatch(data, parent, pair, key, newValue);
+  if (
+    parent instanceof YAMLSeq &&
+    node instanceof Node &&
+    newValue !== undefined
+  )
+    return getSeqItemPatch(data, node, newValue);
+  return null;
+}
+
+/**
+ * Patch to add, replace or delete the pair `key` of a block map. New pairs
+ * are added after the last pair, with the same indentation
+ */
+function getPairPatch(
+  data: string,
+  map: YAMLMap,
+  pair: Pair | undefined,
+  key: string | number,
+  newValue: unknown
+): TextPatch | null {
+  if (!pair) {
+    // Keys inherited from a merge key can't be deleted
+    if (newValue === undefined || map.items.length === 0) return null;
+    const lastPair = map.items[map.items.length - 1] as Pair;
+    const lastKeyStart = getNodeStart(lastPair.key);
+    if (lastKeyStart === null) return null;
+    const end = getPairEnd(data, lastPair);
+    const pad = " ".repeat(lastKeyStart - getLineStart(data, lastKeyStart));
+    const text = indentLines(stringifyYaml({ [key]: newValue }), pad, pad);
+    return end === data.length && !data.endsWith("\n")
+      ? { start: end, end, text: "\n" + text }
+      : { start: end, end, text };
+  }
+
+  const keyStart = getNodeStart(pair.key);
+  if (keyStart === null) return null;
+  const lineStart = getLineStart(data, keyStart);
+  const pad = " ".repeat(keyStart - lineStart);
+  // The first pair of a seq item starts after its "- "
+  const isFirstInLine = data.slice(lineStart, keyStart).trim() === "";
+  const end = getPairEnd(data, pair);
+
+  if (newValue === undefined) {
+    if (!isFirstInLine) return null;
+    // Delete the comment lines of the pair
+    let start = lineStart;
+    while (start > 0) {
+      const prevLineStart = getLineStart(data, start - 1);
+      if (!/^[ \t]*#/.test(data.slice(prevLineStart, start))) break;
+      start = prevLineStart;
+    }
+    return { start, end, text: "" };
+  }
+
+  return {
+    start: isFirstInLine ? lineStart : keyStart,
+    end,
+    text: indentLines(
+      stringifyYaml({ [key]: newValue }),
+      isFirstInLine ? pad : "",
+      pad
+    )
+  };
+}
+
+/**
+ * Patch to replace an item of a block seq, from its "- " to its last line
+ */
+function getSeqItemPatch(
+  data: string,
+  node: Node,
+  newValue: unknown
+): TextPatch | null {
+  const nodeStart = getNodeStart(node);
+  if (nodeStart === null || !node.range) return null;
+  const start = data.lastIndexOf("-", nodeStart - 1);
+  if (start < 0) return null;
+  const pad = " ".repeat(start - getLineStart(data, start));
+  return {
+    start,
+    end: getLineEnd(data, node.range[1]),
+    text: indentLines(stringifyYaml([newValue]), "", pad)
+  };
+}
+
+/**
+ * Patch to replace the flow collection at `path` with `newValue` in flow
+ * style, i.e. `[3500, "13000:13000"]` => `[ 3500, "13000:13000", 8080 ]`
+ */
+function getFlowCollectionPatch(
+  doc: YAML.Document,
+  path: Path,
+  newValue: unknown
+): TextPatch | null {
+  const node = doc.getIn(path, true);
+  if (!(node instanceof Node) || doc.anchors.getName(node)) return null;
+  const range = getValueRange(node);
+  const newNode = YAML.createNode(newValue);
+  if (newNode instanceof YAMLSeq) newNode.type = Type.FLOW_SEQ;
+  if (newNode instanceof YAMLMap) newNode.type = Type.FLOW_MAP;
+  copyScalarTypes(node, newNode);
+  const text = stringifyYaml(newNode).replace(/\n$/, "");
+  if (!range || text.includes("\n")) return null;
+  return { ...range, text };
+}
+
+/**
+ * Keeps the quoting style of the scalars of `from` that are in `to`
+ */
+function copyScalarTypes(from: unknown, to: unknown): void {
+  if (from instanceof Scalar && to instanceof Scalar) {
+    if (isEqual(from.value, to.value)) to.type = from.type;
+  } else if (from instanceof YAMLSeq && to instanceof YAMLSeq) {
+    to.items.forEach((item, i) => copyScalarTypes(from.items[i], item));
+  } else if (from instanceof YAMLMap && to instanceof YAMLMap) {
+    for (const pair of to.items as Pair[]) {
+      const key = pair.key instanceof Scalar ? pair.key.value : pair.key;
+      const fromPair = (from.items as Pair[]).find(item =>
+        isPairKey(item, String(key))
+      );
+      if (fromPair) copyScalarTypes(fromPair.value, pair.value);
+    }
+  }
+}
+
+/**
+ * Applies non overlapping patches, patches at the same position are
+ * applied in order. Returns null if some patches overlap
+ */
+function applyTextPatches(data: string, patches: TextPatch[]): string | null {
+  const sortedPatches = patches
+    .map((patch, i) => ({ ...patch, i }))
+    .sort((a, b) => a.start - b.start || a.i - b.i);
+  for (let i = 1; i < sortedPatches.length; i++)
+    if (sortedPatches[i].start < sortedPatches[i - 1].end) return null;
+  return sortedPatches.reduceRight(
+    (content, { start, end, text }) =>
+      content.slice(0, start) + text + content.slice(end),
+    data
+  );
+}
+
+/**
+ * Path of the outermost flow collection that contains the node at `path`
+ */
+function getFlowCollectionPath(
+  doc: YAML.Document,
+  path: Path
+): Path | undefined {
+  for (let i = 0; i <= path.length; i++) {
+    const node = i === 0 ? doc.contents : doc.getIn(path.slice(0, i), true);
+    if (isFlowCollection(node)) return path.slice(0, i);
+  }
+}
+
+/**
+ * Serializes new nodes with the YAML 1.1 schema of js-yaml and docker-compose,
+ * so strings like "13000:13000" or "yes" are quoted
+ */
+function stringifyYaml(value: unknown): string {
+  return YAML.stringify(value, { version: "1.1" });
+}
+
+/**
+ * Indents the lines of `text` to be inserted at a column, the first line
+ * with `firstPad` and the rest with `pad`
+ */
+function indentLines(text: string, firstPad: string, pad: string): string {
+  return text
+    .split("\n")
+    .map((line, i) => (line ? (i === 0 ? firstPad : pad) + line : line))
+    .join("\n");
+}
+
+function isFlowCollection(node: unknown): node is Collection {
+  return (
+    node instanceof Collection &&
+    (node.type === Type.FLOW_MAP || node.type === Type.FLOW_SEQ)
+  );
+}
+
+function isPairKey(pair: Pair, key: string | number): boolean {
+  return pair.key instanceof Scalar
+    ? String(pair.key.value) === String(key)
+    : String(pair.key) === String(key);
+}
+
+function isPathPrefix(prefix: Path, path: Path): boolean {
+  return (
+    prefix.length <= path.length && prefix.every((key, i) => key === path[i])
+  );
+}
+
+/** Range of the node's value, without its anchor, tag and comments */
+function getValueRange(node: Node): { start: number; end: number } | null {
+  const valueRange = node.cstNode?.valueRange;
+  return valueRange ? { start: valueRange.start, end: valueRange.end } : null;
+}
+
+function getNodeStart(node: unknown): number | null {
+  return node instanceof Node && node.range ? node.range[0] : null;
+}
+
+/** End of the last line of a pair, including its comment and newline */
+function getPairEnd(data: string, pair: Pair): number {
+  const node =
+    pair.value instanceof Node && pair.value.range ? pair.value : pair.key;
+  return getLineEnd(
+    data,
+    node instanceof Node && node.range ? node.range[1] : 0
+  );
+}
+
+function getLineStart(data: string, offset: number): number {
+  return data.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function getLineEnd(data: string, offset: number): number {
+  if (offset > 0 && data[offset - 1] === "\n") return offset;
+  const newLine = data.indexOf("\n", offset);
+  return newLine === -1 ? data.length : newLine + 1;
+}
+
+/**
+ * Edits can't go through an alias, nor a value inherited from a merge key.
+ * In that case only the aliased or inherited node is replaced entirely, so
+ * the anchored node and its other aliases are not modified
+ */
+function getYamlEditTarget(
+  doc: YAML.Document,
+  edit: ObjectEdit,
+  value: unknown
+): ObjectEdit {
+  for (let i = 1; i < edit.path.length; i++) {
+    const prefix = edit.path.slice(0, i);
+    const node = doc.getIn(prefix, true);
+    if (node === undefined || node instanceof Alias)
+      return { path: prefix, value: getIn(value, prefix) };
+  }
+  return edit;
+}
+
+/**
+ * Updates the contents of a JSON file to serialize `value` editing only the
+ * properties that changed, so key order and formatting are kept
+ * @param data Current contents of the file
+ * @param value New value to serialize
+ */
+export function updateJsonContents(data: string, value: unknown): string {
+  const errors: ParseError[] = [];
+  const current = parse(data, errors);
+  if (errors.length > 0)
+    throw Error(`Error parsing JSON at ${errors[0].offset}`);
+
+  return getObjectEdits(current, value).reduce(
+    (content, edit) =>
+      applyEdits(
+        content,
+        modify(content, edit.path, edit.value, {
+          formattingOptions: { tabSize: 2, insertSpaces: true, eol: "\n" }
+        })
+      ),
+    data
+  );
+}
+
+/**
+ * Computes the minimal set of edits to turn `from` into `to`.
+ * Objects are compared key by key and arrays of the same length item by item,
+ * any other changed value is replaced entirely
+ */
+function getObjectEdits(
+  from: unknown,
+  to: unknown,
+  path: Path = []
+): ObjectEdit[] {
+  if (isEqual(from, to)) return [];
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length)
+    return to.reduce<ObjectEdit[]>(
+      (edits, item, i) => [
+        ...edits,
+        ...getObjectEdits(from[i], item, [...path, i])
+      ],
+      []
+    );
+  if (!isPlainObject(from) || !isPlainObject(to)) return [{ path, value: to }];
+
+  const edits: ObjectEdit[] = [];
+  for (const key of Object.keys(from))
+    if (to[key] === undefined && from[key] !== undefined)
+      edits.push({ path: [...path, key], value: undefined });
+  for (const key of Object.keys(to))
+    if (to[key] !== undefined)
+      edits.push(...getObjectEdits(from[key], to[key], [...path, key]));
+  return edits;
+}
+
+function getIn(value: unknown, path: Path): unknown {
+  return path.reduce<unknown>(
+    (parent, key) =>
+      parent !== null && typeof parent === "object"
+        ? (parent as Record<string | number, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+function isCollection(value: unknown): boolean {
+  return isPlainObject(value) || Array.isArray(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,139 @@
+import Ajv from "ajv";
+import ajvErrors from "ajv-errors";
+import composeSchema from "../schemas/compose.schema.json";
+import { CliError } from "../params";
+import { Compose } from "../types";
+import { parseServiceVolume } from "./compose";
+import { formatErrorPath, processAjvError } from "./ajvErrorPath";
+
+const ajv = new Ajv({ allErrors: true, jsonPointers: true });
+ajvErrors(ajv);
+// Precompile validator
+const validate = ajv.compile(composeSchema);
+
+// Volume properties only used by DAppNode internally
+const forbiddenVolumeProps = ["name", "driver", "driver_opts", "labels"];
+
+interface ComposeValidationOptions {
+  /**
+   * Core packages (`manifest.type === "dncore"`) are allowed to use
+   * host networking and to declare their own networks
+   */
+  isCore?: boolean;
+}
+
+/**
+ * Validates a compose against the compose JSON schema and the DAppNode
+ * specific rules. Does NOT throw.
+ * @returns errors = [
+ *   "compose should NOT have additional properties 'secrets'",
+ *   "compose.services.geth.volumes[2] references volume 'data' not declared in compose.volumes",
+ * ]
+ */
+export function getComposeErrors(
+  compose: Compose,
+  options?: ComposeValidationOptions
+): string[] {
+  const valid = validate(compose);
+  const errors =
+    !valid && validate.errors
+      ? validate.errors.map(e => processAjvError("compose", e))
+      : [];
+
+  // Don't apply DAppNode rules to a compose with an unexpected shape
+  if (!compose || typeof compose.services !== "object") return errors;
+
+  return [...errors, ...getDappnodeRulesErrors(compose, options)];
+}
+
+/**
+ * Validates a compose, throws a CliError listing all errors if not valid
+ */
+export function validateCompose(
+  compose: Compose,
+  options?: ComposeValidationOptions
+): void {
+  const errors = getComposeErrors(compose, options);
+  if (errors.length === 0) return;
+
+  // If not valid, print errors and stop execution
+
+  throw new CliError(
+    `Invalid compose: \n${errors.map(msg => `  - ${msg}`).join("\n")}`
+  );
+}
+
+function getDappnodeRulesErrors(
+  compose: Compose,
+  options?: ComposeValidationOptions
+): string[] {
+  const errors: string[] = [];
+  const isCore = Boolean(options?.isCore);
+  const volumes = compose.volumes || {};
+  const networks = compose.networks || {};
+
+  for (const [volName, vol] of Object.entries(volumes)) {
+    for (const prop of forbiddenVolumeProps)
+      if (vol && vol[prop as keyof typeof vol] !== undefined)
+        errors.push(
+          `${formatErrorPath("compose", [
+            "volumes",
+            volName,
+            prop
+          ])} is not allowed, volumes can only be declared locally or as external`
+        );
+  }
+
+  if (!isCore)
+    for (const [netName, net] of Object.entries(networks)) {
+      if (!net || !net.external)
+        errors.push(
+          `${formatErrorPath("compose", [
+            "networks",
+            netName
+          ])} must be declared as external`
+        );
+    }
+
+  for (const [serviceName, service] of Object.entries(compose.services)) {
+    if (!service || typeof service !== "object") continue;
+
+    if (service.network_mode === "host" && !isCore)
+      errors.push(
+        `${formatErrorPath("compose", [
+          "services",
+          serviceName,
+          "network_mode"
+        ])} 'host' is only allowed for core packages`
+      );
+
+    if (Array.isArray(service.volumes))
+      service.volumes.forEach((volume, i) => {
+        const volName = parseServiceVolume(volume)?.name;
+        if (volName && !volumes[volName])
+          errors.push(
+            `${formatErrorPath("compose", [
+              "services",
+              serviceName,
+              "volumes",
+              i
+            ])} references volume '${volName}' not declared in compose.volumes`
+          );
+      });
+
+    const serviceNetworks = Array.isArray(service.networks)
+      ? service.networks
+      : Object.keys(service.networks || {});
+    for (const netName of serviceNetworks)
+      if (netName !== "default" && !networks[netName])
+        errors.push(
+          `${formatErrorPath("compose", [
+            "services",
+            serviceName,
+            "networks"
+          ])} references network '${netName}' not declared in compose.networks`
+        );
+  }
+
+  return errors;
+}
@@ -1,10 +1,18 @@
-import { CliError } from "../params";
-import { Manifest } from "../types";
+import { CliError, releaseFilesDefaultNames } from "../params";
+import { Compose, Manifest } from "../types";
 import { validateManifestSchema } from "./validateManifestSchema";
+import { validateManifestWithCompose } from "./validateManifestWithCompose";
 
-export function validateManifest(manifest: Manifest): void {
+/**
+ * Validates the manifest against its schema and, if `compose` is provided,
+ * checks that the services it references exist in the compose
+ */
+export function validateManifest(manifest: Manifest, compose?: Compose): void {
   const { valid, errors } = validateManifestSchema(manifest);
-  if (valid) return;
+  // Semantic checks assume the manifest has the shape of the schema
+  if (valid && compose)
+    errors.push(...validateManifestWithCompose(manifest, compose).errors);
+  if (errors.length === 0) return;
 
   // If not valid, print errors and stop execution
 
@@ -12,3 +20,29 @@ export function validateManifest(manifest: Manifest): void {
     `Invalid manifest: \n${errors.map(msg => `  - ${msg}`).join("\n")}`
   );
 }
+
+/**
+ * Checks manifest rules required to build a release that are not covered by
+ * the schema, like props from older versions of the manifest format.
+ * Does NOT throw.
+ */
+export function getManifestReleaseErrors(manifest: Manifest): string[] {
+  const errors: string[] = [];
+
+  if ((manifest as any).image)
+    errors.push(`
+DAppNode packages expect all docker related data to be contained only
+in the docker-compose.yml. Please translate the settings in 'manifest.image'
+to your package's docker-compose.yml and then delete the 'manifest.image' prop.
+`);
+  if (manifest.avatar)
+    errors.push(`
+DAppNode packages expect the avatar to be located at the root folder as a file
+and not declared in the manifest. Please add your package avatar to this directory
+as ${releaseFilesDefaultNames.avatar} and then remove the 'manifest.avatar' property.
+`);
+  if (/[A-Z]/.test(manifest.name))
+    errors.push("Package name in the manifest must be lowercase");
+
+  return errors;
+}
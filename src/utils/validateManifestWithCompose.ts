@@ -0,0 +1,101 @@
+import {
+  Compose,
+  ComposeService,
+  ComposeVolumes,
+  Manifest,
+  defaultArch
+} from "../types";
+import { isPathInside, parseServiceVolume } from "./compose";
+
+/**
+ * Validates that the manifest fields referencing the compose are
+ * consistent with it. Does NOT throw.
+ * @param manifest
+ * @param compose
+ * @returns = {
+ *   valid: false|true
+ *   errors: [
+ *     "manifest.mainService is required for multi-service packages",
+ *     "manifest.backup.0.service 'validatr' is not a service in the compose",
+ *   ]
+ * }
+ */
+export function validateManifestWithCompose(
+  manifest: Manifest,
+  compose: Compose
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const services = compose.services || {};
+  const serviceNames = Object.keys(services);
+
+  function checkService(path: string, serviceName: string): boolean {
+    if (services[serviceName]) return true;
+    errors.push(`${path} '${serviceName}' is not a service in the compose`);
+    return false;
+  }
+
+  const { mainService } = manifest;
+  if (mainService) checkService("manifest.mainService", mainService);
+  else if (serviceNames.length > 1)
+    errors.push("manifest.mainService is required for multi-service packages");
+
+  // Backup items without service belong to the main service
+  const defaultService = mainService || serviceNames[0];
+  (manifest.backup || []).forEach((item, i) => {
+    const serviceName = item.service || defaultService;
+    if (
+      item.service &&
+      !checkService(`manifest.backup.${i}.service`, serviceName)
+    )
+      return;
+    const service = services[serviceName];
+    if (!service) return;
+    if (
+      !getNamedVolumeMountpoints(
+        service.volumes,
+        compose.volumes
+      ).some(mountpoint => isPathInside(item.path, mountpoint))
+    )
+      errors.push(
+        `manifest.backup.${i}.path '${item.path}' is not in a named volume of service '${serviceName}'`
+      );
+  });
+
+  (manifest.exposable || []).forEach((item, i) => {
+    if (item.serviceName)
+      checkService(`manifest.exposable.${i}.serviceName`, item.serviceName);
+  });
+
+  if (Array.isArray(manifest.globalEnvs))
+    manifest.globalEnvs.forEach((item, i) => {
+      (item.services || []).forEach((serviceName, j) =>
+        checkService(`manifest.globalEnvs.${i}.services.${j}`, serviceName)
+      );
+    });
+
+  // Values are checked by the schema enum, mirror parseArchitectures here
+  if (manifest.architectures && !manifest.architectures.includes(defaultArch))
+    errors.push(
+      `manifest.architectures must include default arch '${defaultArch}'`
+    );
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * @param volumes ["data:/root/.ethereum", "/etc/hostname:/etc/host:ro"]
+ * @param declaredVolumes { data: {} }
+ * @returns ["/root/.ethereum"], bind mounts and undeclared volumes are ignored
+ */
+function getNamedVolumeMountpoints(
+  volumes: ComposeService["volumes"] = [],
+  declaredVolumes: ComposeVolumes = {}
+): string[] {
+  const mountpoints: string[] = [];
+  for (const volume of volumes) {
+    const parsed = parseServiceVolume(volume);
+    if (parsed && parsed.name && declaredVolumes[parsed.name])
+      mountpoints.push(parsed.target);
+  }
+  return mountpoints;
+}
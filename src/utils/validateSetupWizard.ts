@@ -0,0 +1,198 @@
+import Ajv from "ajv";
+import ajvErrors from "ajv-errors";
+import setupWizardSchema from "../schemas/setup-wizard.schema.json";
+import { CliError } from "../params";
+import { Compose, ComposeService, SetupWizard } from "../types";
+import { formatErrorPath, processAjvError } from "./ajvErrorPath";
+import { isPathInside, parseServiceVolume } from "./compose";
+
+const ajv = new Ajv({ allErrors: true, jsonPointers: true });
+ajvErrors(ajv);
+// Precompile validator
+const validate = ajv.compile(setupWizardSchema);
+
+/**
+ * Validates a setup wizard against the setup-wizard JSON schema and checks
+ * that every field target exists in the compose. Does NOT throw.
+ * @returns errors = [
+ *   "setupWizard.fields[0] should have required property 'title'",
+ *   "setupWizard.fields[1].target.name 'PAYOUT_ADRESS' is not an environment variable of service 'geth'",
+ * ]
+ */
+export function getSetupWizardErrors(
+  setupWizard: SetupWizard,
+  compose: Compose
+): string[] {
+  const valid = validate(setupWizard);
+  if (!valid && validate.errors)
+    // Targets can't be safely cross-checked if the schema is not valid
+    return validate.errors.map(e => processAjvError("setupWizard", e));
+
+  return getTargetErrors(setupWizard, compose);
+}
+
+/**
+ * Validates a setup wizard, throws a CliError listing all errors if not valid
+ */
+export function validateSetupWizard(
+  setupWizard: SetupWizard,
+  compose: Compose
+): void {
+  const errors = getSetupWizardErrors(setupWizard, compose);
+  if (errors.length === 0) return;
+
+  // If not valid, print errors and stop execution
+
+  throw new CliError(
+    `Invalid setup wizard: \n${errors.map(msg => `  - ${msg}`).join("\n")}`
+  );
+}
+
+function getTargetErrors(setupWizard: SetupWizard, compose: Compose): string[] {
+  const errors: string[] = [];
+  const services = compose.services || {};
+  const volumes = compose.volumes || {};
+  const serviceNames = Object.keys(services);
+  const ids = new Set<string>();
+
+  setupWizard.fields.forEach((field, i) => {
+    const fieldPath = (...keys: string[]): string =>
+      formatErrorPath("setupWizard", ["fields", i, ...keys]);
+
+    if (ids.has(field.id))
+      errors.push(`${fieldPath("id")} '${field.id}' is duplicated`);
+    ids.add(field.id);
+
+    const target = field.target;
+    if (!target) return;
+
+    // Targets without service apply to all services
+    let targetServices = serviceNames;
+    if (
+      target.type !== "namedVolumeMountpoint" &&
+      target.type !== "allNamedVolumesMountpoint" &&
+      target.service
+    ) {
+      if (!services[target.service]) {
+        errors.push(
+          `${fieldPath("target", "service")} '${
+            target.service
+          }' is not a service in the compose`
+        );
+        return;
+      }
+      targetServices = [target.service];
+    }
+    const onServices = `service${
+      targetServices.length > 1 ? "s" : ""
+    } ${targetServices.map(s => `'${s}'`).join(", ")}`;
+
+    switch (target.type) {
+      case "environment":
+        if (!targetServices.some(s => hasEnvironment(services[s], target.name)))
+          errors.push(
+            `${fieldPath("target", "name")} '${
+              target.name
+            }' is not an environment variable of ${onServices}`
+          );
+        break;
+
+      case "portMapping":
+        if (
+          !targetServices.some(s =>
+            hasContainerPort(services[s], target.containerPort)
+          )
+        )
+          errors.push(
+            `${fieldPath("target", "containerPort")} '${
+              target.containerPort
+            }' is not a container port of ${onServices}`
+          );
+        break;
+
+      case "namedVolumeMountpoint":
+        if (!volumes[target.volumeName])
+          errors.push(
+            `${fieldPath("target", "volumeName")} '${
+              target.volumeName
+            }' is not declared in compose.volumes`
+          );
+        break;
+
+      case "allNamedVolumesMountpoint":
+        if (Object.keys(volumes).length === 0)
+          errors.push(
+            `${fieldPath(
+              "target"
+            )} targets all named volumes but compose.volumes is empty`
+          );
+        break;
+
+      case "fileUpload":
+        if (!target.path.startsWith("/"))
+          errors.push(
+            `${fieldPath("target", "path")} '${
+              target.path
+            }' must be an absolute path`
+          );
+        else if (
+          !targetServices.some(s => isInVolume(services[s], target.path))
+        )
+          errors.push(
+            `${fieldPath("target", "path")} '${
+              target.path
+            }' is not in a volume of ${onServices}`
+          );
+        break;
+    }
+  });
+
+  return errors;
+}
+
+function hasEnvironment(service: ComposeService, name: string): boolean {
+  const { environment } = service;
+  if (!environment) return false;
+  if (Array.isArray(environment))
+    return environment.some(env => env.split("=")[0] === name);
+  return name in environment;
+}
+
+/**
+ * @param containerPort "9554", "9554/TCP"
+ */
+function hasContainerPort(
+  service: ComposeService,
+  containerPort: string
+): boolean {
+  const target = normalizePort(containerPort);
+  return (service.ports || []).some(port => {
+    // { target: 80, published: 8080, protocol: "udp" }
+    if (typeof port === "object" && port !== null)
+      return (
+        normalizePort(`${port.target}/${port.protocol || "tcp"}`) === target
+      );
+    // "127.0.0.1:8080:80/tcp", "8080:80", "80", 80
+    const parts = String(port).split(":");
+    return normalizePort(parts[parts.length - 1]) === target;
+  });
+}
+
+/**
+ * @param filepath "/root/.ethereum/keystore"
+ */
+function isInVolume(service: ComposeService, filepath: string): boolean {
+  return (service.volumes || []).some(volume => {
+    const parsed = parseServiceVolume(volume);
+    return parsed !== null && isPathInside(filepath, parsed.target);
+  });
+}
+
+/**
+ * @param port "9554", "9554/TCP"
+ * @returns "9554/tcp"
+ */
+function normalizePort(port: string): string {
+  const [number, protocol = "tcp"] = port.split("/");
+  return `${number.trim()}/${protocol.trim().toLowerCase()}`;
+}
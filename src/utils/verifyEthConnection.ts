@@ -1,15 +1,21 @@
 import { Apm } from "./Apm";
-import { CliError } from "../params";
+import { CliError, defaultNetwork } from "../params";
+import { Network } from "../types";
 
 /**
  * Verify the eth connection outside of the eth library to ensure
- * capturing HTTP errors
+ * capturing HTTP errors. Then verify that the provider is connected
+ * to the chain of `network`, any chain for custom networks
  * @param ethProvider
+ * @param network "mainnet"
  */
-export async function verifyEthConnection(ethProvider: string): Promise<void> {
+export async function verifyEthConnection(
+  ethProvider: string,
+  network: Network = defaultNetwork
+): Promise<void> {
   if (!ethProvider) throw Error("No ethProvider provided");
 
-  const apm = new Apm(ethProvider);
+  const apm = new Apm(ethProvider, network);
   try {
     const isListening = await apm.provider.send("net_listening", []);
     if (isListening === false) {
@@ -26,4 +32,10 @@ export async function verifyEthConnection(ethProvider: string): Promise<void> {
       throw new CliError(`Could not reach ETH provider at ${ethProvider}`);
     }
   }
+
+  const chainId = parseInt(await apm.provider.send("eth_chainId", []));
+  if (apm.network.chainId && chainId !== apm.network.chainId)
+    throw new CliError(
+      `Eth provider ${ethProvider} is connected to chainId ${chainId}, but network ${network} has chainId ${apm.network.chainId}`
+    );
 }
@@ -2,22 +2,24 @@ import semver from "semver";
 import { readManifest } from "../manifest";
 import { Apm } from "../Apm";
 import { checkSemverType } from "../checkSemverType";
-import { ReleaseType } from "../../types";
+import { Network, ReleaseType } from "../../types";
 
 export async function getNextVersionFromApm({
   type,
   ethProvider,
+  network,
   dir
 }: {
   type: ReleaseType;
   ethProvider: string;
+  network?: Network;
   dir: string;
 }): Promise<string> {
   // Check variables
   checkSemverType(type);
 
   // Init APM instance
-  const apm = new Apm(ethProvider);
+  const apm = new Apm(ethProvider, network);
 
   // Load manifest
   const { manifest } = readManifest({ dir });
@@ -1,21 +1,28 @@
 import { readManifest, writeManifest } from "../manifest";
 import { readCompose, writeCompose, updateComposeImageTags } from "../compose";
 import { getNextVersionFromApm } from "./getNextVersionFromApm";
-import { ReleaseType } from "../../types";
+import { Network, ReleaseType } from "../../types";
 
 export async function increaseFromApmVersion({
   type,
   ethProvider,
+  network,
   dir,
   composeFileName
 }: {
   type: ReleaseType;
   ethProvider: string;
+  network?: Network;
   dir: string;
   composeFileName: string;
 }): Promise<string> {
   // Check variables
-  const nextVersion = await getNextVersionFromApm({ type, ethProvider, dir });
+  const nextVersion = await getNextVersionFromApm({
+    type,
+    ethProvider,
+    network,
+    dir
+  });
 
   // Load manifest
   const { manifest, format } = readManifest({ dir });
@@ -0,0 +1,58 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import inquirer from "inquirer";
+import { YargsError } from "../params";
+
+/**
+ * Loads the wallet to sign publish transactions from:
+ * - An encrypted JSON keystore. The password is read from the
+ *   KEYSTORE_PASSWORD ENV or requested with a prompt
+ * - The PRIVATE_KEY ENV
+ * @param keystorePath "./keystore.json"
+ */
+export async function loadWallet({
+  keystorePath
+}: {
+  keystorePath?: string;
+}): Promise<ethers.Wallet> {
+  if (keystorePath) {
+    if (!fs.existsSync(keystorePath))
+      throw new YargsError(`Keystore not found at ${keystorePath}`);
+    const keystore = fs.readFileSync(keystorePath, "utf8");
+    const password =
+      process.env.KEYSTORE_PASSWORD || (await promptKeystorePassword());
+    try {
+      return await ethers.Wallet.fromEncryptedJson(keystore, password);
+    } catch (e) {
+      e.message = `Error decrypting keystore ${keystorePath}: ${e.message}`;
+      throw e;
+    }
+  }
+
+  if (process.env.PRIVATE_KEY)
+    return new ethers.Wallet(process.env.PRIVATE_KEY);
+
+  throw new YargsError(
+    `Signing the publish transaction requires a wallet
+
+with an encrypted JSON keystore:
+
+  dappnodesdk publish [type] --sign --keystore ./keystore.json
+
+with ENV:
+
+  PRIVATE_KEY=0x... dappnodesdk publish [type] --sign
+`
+  );
+}
+
+async function promptKeystorePassword(): Promise<string> {
+  const answers = await inquirer.prompt([
+    {
+      type: "password",
+      name: "password",
+      message: "Keystore password"
+    }
+  ]);
+  return answers.password;
+}
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { broadcastHandler } from "../../src/commands/broadcast";
+import { defaultManifestFormat } from "../../src/params";
+import { encodeNewVersionCall } from "../../src/utils/Apm";
+import { writeManifest } from "../../src/utils/manifest";
+import {
+  testDir,
+  cleanTestDir,
+  createMockEthRpc,
+  mockApmContracts,
+  useMockServer,
+  expectRejection
+} from "../testUtils";
+
+// This test will create the following fake files
+// ./dappnode_package.json  => fake manifest
+//
+// Then it will sign publish transactions offline and broadcast them
+// to a mock of mainnet with the APM repo of the package
+
+describe("broadcast", function () {
+  this.timeout(60 * 1000);
+
+  // Well known development private key, do not use in production
+  const wallet = new ethers.Wallet(
+    "0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d"
+  );
+  const repoAddress = "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455";
+
+  const sentTxs: ethers.Transaction[] = [];
+  const server = createMockEthRpc(
+    1,
+    mockApmContracts({
+      registry: {
+        name: "dnp.dappnode.eth",
+        address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+        repoCreators: []
+      },
+      repos: {
+        "admin.dnp.dappnode.eth": {
+          address: repoAddress,
+          publishers: [wallet.address]
+        }
+      }
+    }),
+    { onSendTransaction: tx => sentTxs.push(tx) }
+  );
+  const mock = useMockServer(server);
+
+  before("Write manifest", () => {
+    cleanTestDir();
+    writeManifest(
+      { name: "admin.dnp.dappnode.eth", version: "0.1.0" },
+      defaultManifestFormat,
+      { dir: testDir }
+    );
+  });
+  beforeEach("Clear sent txs", () => {
+    sentTxs.length = 0;
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  const tx: ethers.UnsignedTransaction = {
+    to: repoAddress,
+    value: 0,
+    data: encodeNewVersionCall({
+      version: "0.1.0",
+      contractAddress: ethers.constants.AddressZero,
+      contentURI: "0x2f697066732f516d" // "/ipfs/Qm"
+    }),
+    gasLimit: 120000,
+    type: 2,
+    maxFeePerGas: "3500000000",
+    maxPriorityFeePerGas: "1500000000",
+    nonce: 0,
+    chainId: 1
+  };
+
+  // Signs the tx as an offline signer would
+  function signTx(
+    unsignedTx: ethers.UnsignedTransaction,
+    signer: ethers.Wallet = wallet
+  ): string {
+    const digest = ethers.utils.keccak256(
+      ethers.utils.serializeTransaction(unsignedTx)
+    );
+    return ethers.utils.serializeTransaction(
+      unsignedTx,
+      signer._signingKey().signDigest(digest)
+    );
+  }
+
+  function runBroadcast(signedTx: string): Promise<{ txHash: string }> {
+    return broadcastHandler({
+      signedTx,
+      eth_provider: mock.url,
+      dir: testDir
+    });
+  }
+
+  it("Should broadcast a signed publish tx", async () => {
+    const signedTx = signTx(tx);
+    const { txHash } = await runBroadcast(signedTx);
+
+    expect(txHash).to.equal(ethers.utils.keccak256(signedTx));
+    expect(sentTxs.map(sentTx => sentTx.hash)).to.deep.equal([txHash]);
+  });
+
+  it("Should throw if the tx reverts", async () => {
+    const notPublisher = ethers.Wallet.createRandom();
+    const signedTx = signTx(tx, notPublisher);
+    const error = await expectRejection(runBroadcast(signedTx));
+    expect(error.message).to.include("transaction failed");
+  });
+
+  it("Should reject a tx for another chain", async () => {
+    const signedTx = signTx({ ...tx, chainId: 5 });
+    const error = await expectRejection(runBroadcast(signedTx));
+    expect(error.message).to.equal(
+      "The transaction is for chainId 5, but network mainnet has chainId 1"
+    );
+    expect(sentTxs).to.have.length(0);
+  });
+
+  it("Should reject a tx not sent to the APM repo", async () => {
+    const to = "0x1111111111111111111111111111111111111111";
+    const signedTx = signTx({ ...tx, to });
+    const error = await expectRejection(runBroadcast(signedTx));
+    expect(error.message).to.equal(
+      `The transaction is sent to ${to}, but the APM contract of admin.dnp.dappnode.eth is ${repoAddress}`
+    );
+    expect(sentTxs).to.have.length(0);
+  });
+
+  it("Should reject an unsigned tx", async () => {
+    const error = await expectRejection(
+      runBroadcast(ethers.utils.serializeTransaction(tx))
+    );
+    expect(error.message).to.equal("The transaction is not signed");
+  });
+});
@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { cleanTestDir, testDir } from "../testUtils";
+import { initHandler } from "../../src/commands/init";
+import { validateHandler } from "../../src/commands/validate";
+import { readManifest, writeManifest } from "../../src/utils/manifest";
+import { readCompose, writeCompose } from "../../src/utils/compose";
+
+// This test will create the following fake files
+// ./dappnode_package.json  => fake manifest
+// ./docker-compose.yml     => fake compose
+// ./avatar-default.png     => default avatar
+//
+// Then it will break some files and expect all errors to be reported
+
+describe("validate", function () {
+  this.timeout(60 * 1000);
+
+  before("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  before("Init repo", async () => {
+    await initHandler({
+      dir: testDir,
+      force: true,
+      yes: true
+    });
+  });
+
+  it("Should validate an initialized package", async () => {
+    expect(await validateHandler({ dir: testDir })).to.deep.equal({
+      valid: true,
+      errors: []
+    });
+  });
+
+  it("Should collect all errors", async () => {
+    const { manifest, format } = readManifest({ dir: testDir });
+    delete manifest.license;
+    writeManifest(manifest, format, { dir: testDir });
+
+    const compose = readCompose({ dir: testDir });
+    compose.networks = { private_net: {} };
+    writeCompose(compose, { dir: testDir });
+
+    fs.writeFileSync(path.join(testDir, "grafana-dashboard.json"), "{}");
+    fs.writeFileSync(path.join(testDir, "setup-wizard.json"), "{}");
+    fs.writeFileSync(path.join(testDir, "setup-wizard.yml"), "");
+
+    const { valid, errors } = await validateHandler({ dir: testDir });
+    expect(valid).to.equal(false);
+    expect(errors.map(e => e.file)).to.deep.equal([
+      "setupWizard",
+      "dappnode_package.json",
+      "docker-compose.yml",
+      "setupWizard",
+      "setupWizard"
+    ]);
+    expect(errors[0].message).to.include("More than one setupWizard found");
+    expect(errors.slice(1).map(e => e.message)).to.deep.equal([
+      "manifest should have required property 'license'",
+      "compose.networks.private_net must be declared as external",
+      "setupWizard should have required property 'version'",
+      "setupWizard should have required property 'fields'"
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { versions, versionsHandler } from "../../src/commands/versions";
+import { defaultManifestFormat } from "../../src/params";
+import { writeManifest } from "../../src/utils/manifest";
+import { addReleaseRecord } from "../../src/utils/releaseRecord";
+import {
+  testDir,
+  cleanTestDir,
+  createMockEthRpc,
+  mockApmContracts,
+  mockApmVersionLogs,
+  getMockBlockTimestamp,
+  useMockServer,
+  MockApmRepo
+} from "../testUtils";
+
+// This test will create the following fake files
+// ./dappnode_package.json  => fake manifest
+// ./releases.json          => release record of the latest version
+//
+// Then it will list the versions published in a mock of the APM repo
+
+describe("versions", function () {
+  this.timeout(60 * 1000);
+
+  const repos: { [ensName: string]: MockApmRepo } = {
+    "admin.dnp.dappnode.eth": {
+      address: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+      publishers: [],
+      versions: [
+        { version: "0.1.0", contentURI: "/ipfs/QmFirst", blockNumber: 10 },
+        { version: "0.1.1", contentURI: "/ipfs/QmSecond" }
+      ]
+    }
+  };
+  const server = createMockEthRpc(
+    1,
+    mockApmContracts({
+      registry: {
+        name: "dnp.dappnode.eth",
+        address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+        repoCreators: []
+      },
+      repos
+    }),
+    { blockNumber: 30, logs: mockApmVersionLogs(repos) }
+  );
+  const mock = useMockServer(server);
+  const [firstVersionLog] = mockApmVersionLogs(repos);
+
+  before("Write manifest and release record", () => {
+    cleanTestDir();
+    writeManifest(
+      { name: "admin.dnp.dappnode.eth", version: "0.1.1" },
+      defaultManifestFormat,
+      { dir: testDir }
+    );
+    addReleaseRecord({
+      dir: testDir,
+      version: "0.1.1",
+      hash: "/ipfs/QmSecond",
+      to: "http://localhost:5001"
+    });
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  /**
+   * Runs the CLI command and returns what it prints, without colors
+   */
+  async function runVersionsCommand(json?: boolean): Promise<string> {
+    const logs: string[] = [];
+    const consoleLog = console.log;
+    console.log = (...args: string[]): void => {
+      logs.push(args.join(" "));
+    };
+    try {
+      await versions.handler({
+        dir: testDir,
+        eth_provider: mock.url,
+        json,
+        _: [],
+        $0: ""
+      });
+    } finally {
+      console.log = consoleLog;
+    }
+    // eslint-disable-next-line no-control-regex
+    return logs.join("\n").replace(/\u001b\[\d+m/g, "");
+  }
+
+  it("Should match the versions against releases.json", async () => {
+    expect(
+      await versionsHandler({ dir: testDir, eth_provider: mock.url })
+    ).to.deep.equal([
+      {
+        versionId: 1,
+        version: "0.1.0",
+        contractAddress: ethers.constants.AddressZero,
+        contentURI: "/ipfs/QmFirst",
+        blockNumber: 10,
+        timestamp: getMockBlockTimestamp(10),
+        txHash: firstVersionLog.transactionHash,
+        inReleasesJson: false
+      },
+      {
+        versionId: 2,
+        version: "0.1.1",
+        contractAddress: ethers.constants.AddressZero,
+        contentURI: "/ipfs/QmSecond",
+        inReleasesJson: true
+      }
+    ]);
+  });
+
+  it("Should list a repo by name outside of the package directory", async () => {
+    const publishedVersions = await versionsHandler({
+      name: "admin.dnp.dappnode.eth",
+      dir: "not-a-package-dir",
+      eth_provider: mock.url
+    });
+    expect(
+      publishedVersions.map(({ version, inReleasesJson }) => ({
+        version,
+        inReleasesJson
+      }))
+    ).to.deep.equal([
+      { version: "0.1.0", inReleasesJson: false },
+      { version: "0.1.1", inReleasesJson: false }
+    ]);
+  });
+
+  it("Should print the versions as a table", async () => {
+    expect(await runVersionsCommand()).to.equal(
+      [
+        "Version  Content URI     Block  Date                      releases.json",
+        "0.1.0    /ipfs/QmFirst   10     2020-09-13T12:28:40.000Z  no           ",
+        "0.1.1    /ipfs/QmSecond  -      -                         yes          "
+      ].join("\n")
+    );
+  });
+
+  it("Should print the versions as JSON", async () => {
+    const output = await runVersionsCommand(true);
+    expect(JSON.parse(output)).to.deep.equal(
+      await versionsHandler({ dir: testDir, eth_provider: mock.url })
+    );
+  });
+});
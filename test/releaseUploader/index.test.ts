@@ -0,0 +1,170 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import { URL } from "url";
+import { expect } from "chai";
+import {
+  getReleaseUploader,
+  isIpfsNodeProvider,
+  parseUploadTargets,
+  uploadToTargets,
+  UploadTarget
+} from "../../src/releaseUploader";
+import {
+  testDir,
+  cleanTestDir,
+  useMockServer,
+  expectRejection
+} from "../testUtils";
+
+describe("releaseUploader / parseUploadTargets", () => {
+  it("Should parse a single target", () => {
+    expect(
+      parseUploadTargets({ uploadTo: "ipfs", contentProvider: "dappnode" })
+    ).to.deep.equal([{ uploadTo: "ipfs", contentProvider: "dappnode" }]);
+  });
+
+  it("Should apply a single upload_to to all providers", () => {
+    expect(
+      parseUploadTargets({
+        uploadTo: "ipfs",
+        contentProvider: "http://localhost:5001, pinata"
+      })
+    ).to.deep.equal([
+      { uploadTo: "ipfs", contentProvider: "http://localhost:5001" },
+      { uploadTo: "ipfs", contentProvider: "pinata" }
+    ]);
+  });
+
+  it("Should pair lists of the same length", () => {
+    expect(
+      parseUploadTargets({
+        uploadTo: "ipfs,ipfs",
+        contentProvider: "dappnode,pinata"
+      })
+    ).to.deep.equal([
+      { uploadTo: "ipfs", contentProvider: "dappnode" },
+      { uploadTo: "ipfs", contentProvider: "pinata" }
+    ]);
+  });
+
+  it("Should reject lists of different length", () => {
+    expect(() =>
+      parseUploadTargets({
+        uploadTo: "ipfs,ipfs",
+        contentProvider: "dappnode,pinata,infura"
+      })
+    ).to.throw("same number of items");
+  });
+
+  it("Should reject targets in different networks", () => {
+    expect(() =>
+      parseUploadTargets({
+        uploadTo: "ipfs,swarm",
+        contentProvider: "dappnode,http://localhost:1633"
+      })
+    ).to.throw("different networks");
+  });
+
+  it("Should reject unknown networks", () => {
+    expect(() =>
+      parseUploadTargets({ uploadTo: "ipfs,filecoin", contentProvider: "a,b" })
+    ).to.throw("Unknown upload_to value 'filecoin'");
+  });
+});
+
+describe("releaseUploader / uploadToTargets", function () {
+  this.timeout(60 * 1000);
+
+  /**
+   * Mock of the IPFS API of a node that returns `rootHash` for any release
+   */
+  function createMockIpfsNode(rootHash: string): http.Server {
+    return http.createServer((req, res) => {
+      const url = new URL(req.url || "", "http://localhost");
+      req.resume();
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        switch (url.pathname) {
+          case "/api/v0/add":
+            return res.end(JSON.stringify({ Hash: "QmFile" }));
+          case "/api/v0/object/new":
+            return res.end(JSON.stringify({ Hash: "QmEmptyDir" }));
+          case "/api/v0/object/patch/add-link":
+            return res.end(JSON.stringify({ Hash: rootHash }));
+          case "/api/v0/pin/add":
+          case "/api/v0/pin/rm":
+            return res.end(JSON.stringify({ Pins: [] }));
+          default:
+            res.statusCode = 500;
+            return res.end(JSON.stringify({ Message: "not pinned" }));
+        }
+      });
+    });
+  }
+
+  const nodeA = useMockServer(createMockIpfsNode("QmRelease"));
+  const nodeB = useMockServer(createMockIpfsNode("QmRelease"));
+  const nodeC = useMockServer(createMockIpfsNode("QmOther"));
+
+  const dirPath = path.join(testDir, "build_0.1.0");
+  before("Write release files", () => {
+    cleanTestDir();
+    fs.mkdirSync(dirPath, { recursive: true });
+    fs.writeFileSync(path.join(dirPath, "dappnode_package.json"), "{}");
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  function getTargets(locations: string[]): UploadTarget[] {
+    return locations.map(location => {
+      const provider = {
+        network: "ipfs" as const,
+        type: "node" as const,
+        ipfsProvider: location
+      };
+      return {
+        location,
+        provider,
+        releaseUploader: getReleaseUploader(provider)
+      };
+    });
+  }
+  const metadata = { name: "admin.dnp.dappnode.eth 0.1.0" };
+
+  it("Should upload to all targets in parallel", async () => {
+    const progress: number[][] = [];
+    const releaseHash = await uploadToTargets(
+      getTargets([nodeA.url, nodeB.url]),
+      {
+        dirPath,
+        metadata,
+        onProgress: percents => progress.push([...percents])
+      }
+    );
+
+    expect(releaseHash).to.equal("/ipfs/QmRelease");
+    expect(progress[progress.length - 1]).to.deep.equal([1, 1]);
+  });
+
+  it("Should throw if the targets return different release hashes", async () => {
+    const error = await expectRejection(
+      uploadToTargets(getTargets([nodeA.url, nodeC.url]), { dirPath, metadata })
+    );
+    expect(error.message).to.equal(
+      `Upload targets returned different release hashes:
+  ${nodeA.url}: /ipfs/QmRelease
+  ${nodeC.url}: /ipfs/QmOther`
+    );
+  });
+});
+
+describe("releaseUploader / isIpfsNodeProvider", () => {
+  it("Should tell IPFS node APIs from pinning services", () => {
+    expect(isIpfsNodeProvider("dappnode")).to.equal(true);
+    expect(isIpfsNodeProvider("http://localhost:5001")).to.equal(true);
+    expect(isIpfsNodeProvider("pinata")).to.equal(false);
+    expect(
+      isIpfsNodeProvider("pinning-service:https://api.web3.storage")
+    ).to.equal(false);
+  });
+});
@@ -0,0 +1,171 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import { URL } from "url";
+import { expect } from "chai";
+import { ipfsAddFromFs } from "../../../src/releaseUploader/ipfsNode/addFromFs";
+import { computeIpfsHash } from "../../../src/utils/ipfsHash";
+import { testDir, cleanTestDir, useMockServer } from "../../testUtils";
+
+describe("releaseUploader / ipfsNode / addFromFs", function () {
+  this.timeout(60 * 1000);
+
+  let requests: string[] = [];
+  let addRequests = 0;
+  let pinnedHashes: string[] = [];
+  let unpinnedHashes: string[] = [];
+
+  // Mock of the IPFS API add, object and pin endpoints
+  // The first add request fails to test retries
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "", "http://localhost");
+    const args = url.searchParams.getAll("arg");
+    requests.push(
+      url.pathname === "/api/v0/add"
+        ? `${url.pathname} pin=${url.searchParams.get("pin")}`
+        : `${url.pathname} ${args.join(" ")}`
+    );
+    req.resume();
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      switch (url.pathname) {
+        case "/api/v0/add":
+          if (addRequests++ === 0) {
+            res.statusCode = 500;
+            return res.end("connection reset");
+          }
+          return res.end(JSON.stringify({ Hash: `QmFile${addRequests}` }));
+        case "/api/v0/object/new":
+          return res.end(JSON.stringify({ Hash: "QmEmptyDir" }));
+        case "/api/v0/object/patch/add-link":
+          return res.end(JSON.stringify({ Hash: `${args[0]}+${args[2]}` }));
+        case "/api/v0/pin/rm":
+          if (unpinnedHashes.includes(args[0])) {
+            res.statusCode = 500;
+            return res.end(
+              JSON.stringify({
+                Message: "not pinned or pinned indirectly",
+                Code: 0,
+                Type: "error"
+              })
+            );
+          }
+          return res.end(JSON.stringify({ Pins: args }));
+        case "/api/v0/pin/add":
+          return res.end(JSON.stringify({ Pins: args }));
+        case "/api/v0/pin/ls":
+          if (!pinnedHashes.includes(args[0])) {
+            res.statusCode = 500;
+            return res.end(
+              JSON.stringify({ Message: `path '${args[0]}' is not pinned` })
+            );
+          }
+          return res.end(
+            JSON.stringify({ Keys: { [args[0]]: { Type: "recursive" } } })
+          );
+        default:
+          res.statusCode = 404;
+          return res.end();
+      }
+    });
+  });
+  const mock = useMockServer(server);
+
+  const dirPath = path.join(testDir, "build_0.1.0");
+  const manifestPath = path.join(dirPath, "dappnode_package.json");
+  const readmePath = path.join(dirPath, "docs", "README.md");
+
+  beforeEach("Write release files", () => {
+    cleanTestDir();
+    fs.mkdirSync(path.join(dirPath, "docs"), { recursive: true });
+    fs.writeFileSync(manifestPath, "{}");
+    fs.writeFileSync(readmePath, "# Docs");
+    requests = [];
+    addRequests = 0;
+    pinnedHashes = [];
+    unpinnedHashes = [];
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  async function getLocalHash(filePath: string): Promise<string> {
+    return (await computeIpfsHash(filePath)).replace("/ipfs/", "");
+  }
+
+  it("Should upload files one by one and assemble the directory", async () => {
+    const manifestHash = await getLocalHash(manifestPath);
+    const readmeHash = await getLocalHash(readmePath);
+
+    const releaseHash = await ipfsAddFromFs(dirPath, mock.url);
+
+    expect(releaseHash).to.equal("/ipfs/QmEmptyDir+QmFile2+QmFile3");
+    expect(requests).to.deep.equal([
+      `/api/v0/pin/ls ${manifestHash}`,
+      "/api/v0/add pin=true",
+      "/api/v0/add pin=true",
+      `/api/v0/pin/ls ${readmeHash}`,
+      "/api/v0/add pin=true",
+      "/api/v0/object/new unixfs-dir",
+      "/api/v0/object/patch/add-link QmEmptyDir dappnode_package.json QmFile2",
+      "/api/v0/object/patch/add-link QmEmptyDir+QmFile2 docs/README.md QmFile3",
+      "/api/v0/pin/add QmEmptyDir+QmFile2+QmFile3",
+      "/api/v0/pin/rm QmFile2",
+      "/api/v0/pin/rm QmFile3"
+    ]);
+  });
+
+  it("Should not upload again files pinned by a previous run", async () => {
+    const manifestHash = await getLocalHash(manifestPath);
+    const readmeHash = await getLocalHash(readmePath);
+    pinnedHashes = [manifestHash];
+    // Skip the failed request to test only the resume
+    addRequests = 1;
+
+    const releaseHash = await ipfsAddFromFs(dirPath, mock.url);
+
+    expect(releaseHash).to.equal(`/ipfs/QmEmptyDir+${manifestHash}+QmFile2`);
+    expect(requests).to.deep.equal([
+      `/api/v0/pin/ls ${manifestHash}`,
+      `/api/v0/pin/ls ${readmeHash}`,
+      "/api/v0/add pin=true",
+      "/api/v0/object/new unixfs-dir",
+      `/api/v0/object/patch/add-link QmEmptyDir dappnode_package.json ${manifestHash}`,
+      `/api/v0/object/patch/add-link QmEmptyDir+${manifestHash} docs/README.md QmFile2`,
+      `/api/v0/pin/add QmEmptyDir+${manifestHash}+QmFile2`,
+      `/api/v0/pin/rm ${manifestHash}`,
+      "/api/v0/pin/rm QmFile2"
+    ]);
+  });
+
+  it("Should not fail if a file was already unpinned", async () => {
+    // Skip the failed request to test only the unpin
+    addRequests = 1;
+    unpinnedHashes = ["QmFile2"];
+
+    const releaseHash = await ipfsAddFromFs(dirPath, mock.url);
+
+    expect(releaseHash).to.equal("/ipfs/QmEmptyDir+QmFile2+QmFile3");
+    expect(
+      requests.filter(request => request.startsWith("/api/v0/pin/rm"))
+    ).to.deep.equal(["/api/v0/pin/rm QmFile2", "/api/v0/pin/rm QmFile3"]);
+  });
+
+  it("Should upload once to the same node at the same time", async () => {
+    // Skip the failed request to test only the shared upload
+    addRequests = 1;
+    const progress: { [target: string]: number } = {};
+
+    const releaseHashes = await Promise.all([
+      ipfsAddFromFs(dirPath, mock.url, p => (progress.node = p)),
+      ipfsAddFromFs(dirPath, mock.url, p => (progress.pinning = p))
+    ]);
+
+    expect(releaseHashes).to.deep.equal([
+      "/ipfs/QmEmptyDir+QmFile2+QmFile3",
+      "/ipfs/QmEmptyDir+QmFile2+QmFile3"
+    ]);
+    expect(
+      requests.filter(request => request.startsWith("/api/v0/add"))
+    ).to.have.length(2);
+    expect(progress).to.deep.equal({ node: 1, pinning: 1 });
+  });
+});
@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import { URL } from "url";
+import { expect } from "chai";
+import { ReleaseUploaderIpfsPinningService } from "../../../src/releaseUploader/pinningService";
+import {
+  testDir,
+  cleanTestDir,
+  useMockServer,
+  expectRejection
+} from "../../testUtils";
+
+describe("releaseUploader / pinningService", function () {
+  this.timeout(60 * 1000);
+
+  const accessToken = "secret-token";
+  const pinRequests: { cid: string; name: string }[] = [];
+  const swarmConnectRequests: string[] = [];
+  const delegate = "/ip4/10.0.0.2/tcp/4001/p2p/QmDelegate";
+  let addPinRequests = 0;
+  let statusRequests = 0;
+
+  // Mock of the IPFS API and the Pinning Service API under /psa
+  // The first pin and status requests fail to test retries, the pin is
+  // queued on the second status request and pinned on the third
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "", "http://localhost");
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      if (url.pathname.startsWith("/psa/")) {
+        if (req.headers.authorization !== `Bearer ${accessToken}`) {
+          res.statusCode = 401;
+          return res.end(JSON.stringify({ error: { reason: "UNAUTHORIZED" } }));
+        }
+        const pinStatus = (status: string) =>
+          JSON.stringify({
+            requestid: "request-1",
+            status,
+            created: new Date().toISOString(),
+            pin: { cid: "QmRelease" },
+            delegates: [delegate]
+          });
+        if (req.method === "POST" && url.pathname === "/psa/pins") {
+          if (addPinRequests++ === 0) {
+            res.statusCode = 502;
+            return res.end();
+          }
+          pinRequests.push(JSON.parse(body));
+          res.statusCode = 202;
+          return res.end(pinStatus("queued"));
+        }
+        if (req.method === "GET" && url.pathname === "/psa/pins/request-1") {
+          if (statusRequests++ === 0) {
+            res.statusCode = 502;
+            return res.end();
+          }
+          return res.end(pinStatus(statusRequests > 2 ? "pinned" : "queued"));
+        }
+        if (req.method === "GET" && url.pathname === "/psa/pins")
+          return res.end(JSON.stringify({ count: 0, results: [] }));
+      }
+      switch (url.pathname) {
+        case "/api/v0/add":
+          return res.end(JSON.stringify({ Hash: "QmFile" }));
+        case "/api/v0/object/new":
+          return res.end(JSON.stringify({ Hash: "QmEmptyDir" }));
+        case "/api/v0/object/patch/add-link":
+          return res.end(JSON.stringify({ Hash: "QmRelease" }));
+        case "/api/v0/pin/add":
+        case "/api/v0/pin/rm":
+          return res.end(
+            JSON.stringify({ Pins: url.searchParams.getAll("arg") })
+          );
+        case "/api/v0/version":
+          return res.end(JSON.stringify({ Version: "0.20.0" }));
+        case "/api/v0/id":
+          return res.end(
+            JSON.stringify({
+              ID: "QmNode",
+              Addresses: [
+                "/ip4/127.0.0.1/tcp/4001/p2p/QmNode",
+                "/ip4/10.0.0.1/tcp/4001/p2p/QmNode"
+              ]
+            })
+          );
+        case "/api/v0/swarm/connect":
+          swarmConnectRequests.push(url.searchParams.get("arg") || "");
+          return res.end(JSON.stringify({ Strings: ["connect QmDelegate"] }));
+      }
+      res.statusCode = 404;
+      res.end();
+    });
+  });
+  const mock = useMockServer(server);
+  let ipfsProvider: string;
+  let serviceUrl: string;
+  before("Set mock API URLs", () => {
+    ipfsProvider = mock.url;
+    serviceUrl = `${mock.url}/psa`;
+  });
+
+  before("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  it("Should verify the connection", async () => {
+    const uploader = new ReleaseUploaderIpfsPinningService({
+      serviceUrl,
+      accessToken,
+      ipfsProvider
+    });
+    await uploader.testConnection();
+  });
+
+  it("Should reject a wrong access token", async () => {
+    const uploader = new ReleaseUploaderIpfsPinningService({
+      serviceUrl,
+      accessToken: "wrong-token",
+      ipfsProvider
+    });
+    const error = await expectRejection(uploader.testConnection());
+    expect(error.message).to.include("Error authenticating");
+  });
+
+  it("Should add a release and wait until it is pinned", async () => {
+    const dirPath = path.join(testDir, "build_0.1.0");
+    fs.mkdirSync(dirPath, { recursive: true });
+    fs.writeFileSync(path.join(dirPath, "dappnode_package.json"), "{}");
+
+    const uploader = new ReleaseUploaderIpfsPinningService({
+      serviceUrl,
+      accessToken,
+      ipfsProvider,
+      pollInterval: 10
+    });
+    const releaseHash = await uploader.addFromFs({
+      dirPath,
+      metadata: {
+        name: "admin.dnp.dappnode.eth 0.1.0",
+        keyvalues: { dnpName: "admin.dnp.dappnode.eth", version: "0.1.0" }
+      }
+    });
+
+    expect(releaseHash).to.equal("/ipfs/QmRelease");
+    expect(pinRequests).to.deep.equal([
+      {
+        cid: "QmRelease",
+        name: "admin.dnp.dappnode.eth 0.1.0",
+        origins: ["/ip4/10.0.0.1/tcp/4001/p2p/QmNode"],
+        meta: { dnpName: "admin.dnp.dappnode.eth", version: "0.1.0" }
+      }
+    ]);
+    expect(addPinRequests).to.equal(2);
+    expect(statusRequests).to.equal(3);
+    expect(swarmConnectRequests).to.deep.equal([delegate]);
+  });
+});
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import { expect } from "chai";
+import { ReleaseUploaderSwarmNode } from "../../../src/releaseUploader/swarmNode";
+import {
+  testDir,
+  cleanTestDir,
+  useMockServer,
+  expectRejection
+} from "../../testUtils";
+
+describe("releaseUploader / swarmNode", function () {
+  this.timeout(60 * 1000);
+
+  const usableBatchId =
+    "f1e4ff753ea1cb923269ed0cda909d13a10d624719edf261e196584e9e764e50";
+  const pendingBatchId =
+    "a2c4ff753ea1cb923269ed0cda909d13a10d624719edf261e196584e9e764e50";
+  const reference =
+    "a5e0183cee001121fd2b9c4b2d7d2d5a2e5b0b39e1f7d5d6b8f0e5e0e7c8d9f0";
+  let uploadHeaders: http.IncomingHttpHeaders = {};
+
+  // Mock of the Bee API health, stamps and bzz endpoints
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      if (req.method === "GET" && req.url === "/health") {
+        res.end(JSON.stringify({ status: "ok", version: "1.17.2" }));
+      } else if (
+        req.method === "GET" &&
+        req.url === `/stamps/${usableBatchId}`
+      ) {
+        res.end(
+          JSON.stringify({ batchID: usableBatchId, usable: true, exists: true })
+        );
+      } else if (
+        req.method === "GET" &&
+        req.url === `/stamps/${pendingBatchId}`
+      ) {
+        res.end(
+          JSON.stringify({
+            batchID: pendingBatchId,
+            usable: false,
+            exists: true
+          })
+        );
+      } else if (req.method === "POST" && req.url === "/bzz") {
+        uploadHeaders = req.headers;
+        res.statusCode = 201;
+        res.end(JSON.stringify({ reference }));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ code: 404, message: "Not Found" }));
+      }
+    });
+  });
+  const mock = useMockServer(server);
+
+  before("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  it("Should verify the connection with a usable postage batch", async () => {
+    const uploader = new ReleaseUploaderSwarmNode({
+      swarmProvider: mock.url,
+      postageBatchId: usableBatchId
+    });
+    await uploader.testConnection();
+  });
+
+  it("Should reject a postage batch that is not usable", async () => {
+    const uploader = new ReleaseUploaderSwarmNode({
+      swarmProvider: mock.url,
+      postageBatchId: pendingBatchId
+    });
+    const error = await expectRejection(uploader.testConnection());
+    expect(error.message).to.include("is not usable");
+  });
+
+  it("Should upload a release as a collection", async () => {
+    const dirPath = path.join(testDir, "build_0.1.0");
+    fs.mkdirSync(dirPath, { recursive: true });
+    fs.writeFileSync(path.join(dirPath, "dappnode_package.json"), "{}");
+    fs.writeFileSync(path.join(dirPath, "docker-compose.yml"), "");
+
+    const uploader = new ReleaseUploaderSwarmNode({
+      swarmProvider: mock.url,
+      postageBatchId: usableBatchId
+    });
+    const releaseHash = await uploader.addFromFs({ dirPath });
+
+    expect(releaseHash).to.equal(`/bzz/${reference}`);
+    expect(uploadHeaders["content-type"]).to.equal("application/x-tar");
+    expect(uploadHeaders["swarm-postage-batch-id"]).to.equal(usableBatchId);
+    expect(uploadHeaders["swarm-collection"]).to.equal("true");
+    expect(uploadHeaders["swarm-index-document"]).to.equal(
+      "dappnode_package.json"
+    );
+  });
+});
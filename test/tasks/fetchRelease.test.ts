@@ -0,0 +1,106 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import { URL } from "url";
+import { expect } from "chai";
+import { defaultManifestFormat } from "../../src/params";
+import { fetchRelease } from "../../src/tasks/fetchRelease";
+import { writeManifest } from "../../src/utils/manifest";
+import { ListrContextBuildAndPublish } from "../../src/types";
+import {
+  testDir,
+  cleanTestDir,
+  useMockServer,
+  expectRejection
+} from "../testUtils";
+
+describe("fetchRelease", function () {
+  this.timeout(60 * 1000);
+
+  const name = "admin.dnp.dappnode.eth";
+  const releaseManifest = { name, version: "0.1.1" };
+  const ipfsFiles: { [hash: string]: string } = {
+    QmManifest: JSON.stringify(releaseManifest),
+    QmCompose: "version: '3.4'"
+  };
+
+  // Mock of the IPFS API ls and cat endpoints
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "", "http://localhost");
+    const arg = url.searchParams.get("arg") || "";
+    if (url.pathname === "/api/v0/ls" && arg === "/ipfs/QmRelease") {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          Objects: [
+            {
+              Hash: "QmRelease",
+              Links: [
+                {
+                  Name: "dappnode_package.json",
+                  Hash: "QmManifest",
+                  Size: 10,
+                  Type: 2
+                },
+                {
+                  Name: "docker-compose.yml",
+                  Hash: "QmCompose",
+                  Size: 10,
+                  Type: 2
+                }
+              ]
+            }
+          ]
+        })
+      );
+    } else if (url.pathname === "/api/v0/cat" && ipfsFiles[arg]) {
+      res.end(ipfsFiles[arg]);
+    } else {
+      res.statusCode = 500;
+      res.end(`Unknown request ${req.url}`);
+    }
+  });
+  const mock = useMockServer(server);
+
+  before("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  it("Should verify and download an existing release", async () => {
+    writeManifest({ name, version: "0.1.1" }, defaultManifestFormat, {
+      dir: testDir
+    });
+    const buildDir = path.join(testDir, "build_0.1.1");
+
+    const ctx = await fetchRelease({
+      dir: testDir,
+      releaseHash: "QmRelease",
+      contentProvider: mock.url,
+      downloadFiles: true,
+      verbose: true
+    }).run({ nextVersion: "0.1.1", buildDir } as ListrContextBuildAndPublish);
+
+    expect(ctx.releaseMultiHash).to.equal("/ipfs/QmRelease");
+    expect(fs.readdirSync(buildDir).sort()).to.deep.equal([
+      "dappnode_package.json",
+      "docker-compose.yml"
+    ]);
+    const releases = JSON.parse(
+      fs.readFileSync(path.join(testDir, "releases.json"), "utf8")
+    );
+    expect(releases["0.1.1"].hash).to.equal("/ipfs/QmRelease");
+  });
+
+  it("Should reject a release for another version", async () => {
+    const error = await expectRejection(
+      fetchRelease({
+        dir: testDir,
+        releaseHash: "/ipfs/QmRelease",
+        contentProvider: mock.url,
+        silent: true
+      }).run({ nextVersion: "0.1.2" } as ListrContextBuildAndPublish)
+    );
+    expect(error.message).to.include(
+      "version 0.1.1 does not match the next version 0.1.2"
+    );
+  });
+});
@@ -2,7 +2,15 @@ import { expect } from "chai";
 import { defaultManifestFormat } from "../../src/params";
 import { generatePublishTx } from "../../src/tasks/generatePublishTx";
 import { writeManifest } from "../../src/utils/manifest";
-import { testDir, cleanTestDir } from "../testUtils";
+import { TxData } from "../../src/types";
+import {
+  testDir,
+  cleanTestDir,
+  createMockEthRpc,
+  mockApmContracts,
+  useMockServer,
+  MockEthChainOptions
+} from "../testUtils";
 
 // This test will create the following fake files
 // ./dappnode_package.json  => fake manifest
@@ -35,15 +43,22 @@ describe("generatePublishTx", function () {
     expect(txData).to.be.an("object");
     // admin.dnp.dappnode.eth ==> 0xEe66C4765696C922078e8670aA9E6d4F6fFcc455
 
-    expect(txData).to.deep.equal({
+    // Gas and fees depend on the current network state
+    const { gasLimit, maxFeePerGas, maxPriorityFeePerGas, ...rest } = txData;
+    // The developer is not authorized, so the gas can't be estimated
+    expect(gasLimit).to.equal(300000);
+    expect(maxFeePerGas).to.be.a("string");
+    expect(maxPriorityFeePerGas).to.be.a("string");
+
+    expect(rest).to.deep.equal({
       to: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
       value: 0,
       data:
         "0x73053410000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000082f697066732f516d000000000000000000000000000000000000000000000000",
-      gasLimit: 300000,
       ensName: "admin.dnp.dappnode.eth",
       currentVersion: "0.1.0",
-      releaseMultiHash: "/ipfs/Qm"
+      releaseMultiHash: "/ipfs/Qm",
+      chainId: 1
     });
     // I am not sure if the Data property will be the same
     expect(txData.data).to.be.a("string");
@@ -66,18 +81,160 @@ describe("generatePublishTx", function () {
     const { txData } = await generatePublishTxTasks.run();
     expect(txData).to.be.an("object");
 
-    expect(txData).to.deep.equal({
+    // Gas and fees depend on the current network state
+    const { gasLimit, maxFeePerGas, maxPriorityFeePerGas, ...rest } = txData;
+    // The developer can't create repos, so the gas can't be estimated
+    expect(gasLimit).to.equal(1100000);
+    expect(maxFeePerGas).to.be.a("string");
+    expect(maxPriorityFeePerGas).to.be.a("string");
+
+    expect(rest).to.deep.equal({
       to: "0x266BFdb2124A68beB6769dC887BD655f78778923",
       value: 0,
       data:
         "0x32ab6af000000000000000000000000000000000000000000000000000000000000000e0000000000000000000000000ab5801a7d398351b8be11c439e05c5b3259aec9b0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000012000000000000000000000000000000000000000000000000000000000000000086e65772d7265706f00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000082f697066732f516d000000000000000000000000000000000000000000000000",
-      gasLimit: 1100000,
       ensName: "new-repo.dnp.dappnode.eth",
       currentVersion: "0.1.0",
       releaseMultiHash: "/ipfs/Qm",
-      developerAddress: "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B"
+      developerAddress: "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B",
+      chainId: 1
     });
     // I am not sure if the Data property will be the same
     expect(txData.data).to.be.a("string");
   });
 });
+
+describe("generatePublishTx gas and fees", function () {
+  this.timeout(60 * 1000);
+
+  const publisher = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+  const developer = "0x1111111111111111111111111111111111111111";
+  const forwarder = "0x2222222222222222222222222222222222222222";
+
+  // Gas used is not a multiple of 100 to check the rounding of the margin
+  function createMockChain(options: MockEthChainOptions): { url: string } {
+    const server = createMockEthRpc(
+      1,
+      mockApmContracts({
+        registry: {
+          name: "dnp.dappnode.eth",
+          address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+          repoCreators: [publisher]
+        },
+        repos: {
+          "admin.dnp.dappnode.eth": {
+            address: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+            publishers: [publisher]
+          }
+        }
+      }),
+      { gasUsed: 104321, ...options }
+    );
+    return useMockServer(server);
+  }
+
+  beforeEach("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  async function runGeneratePublishTx(
+    ethProvider: string,
+    {
+      name,
+      developerAddress,
+      gasMargin,
+      forwarderAddress
+    }: {
+      name: string;
+      developerAddress: string;
+      gasMargin?: number;
+      forwarderAddress?: string;
+    }
+  ): Promise<TxData> {
+    writeManifest({ name, version: "0.1.0" }, defaultManifestFormat, {
+      dir: testDir
+    });
+    const { txData } = await generatePublishTx({
+      dir: testDir,
+      releaseMultiHash: "/ipfs/Qm",
+      developerAddress,
+      ethProvider,
+      gasMargin,
+      forwarderAddress,
+      silent: true
+    }).run();
+    return txData;
+  }
+
+  describe("EIP-1559 chain", () => {
+    const mock = createMockChain({ baseFeePerGas: 1e9 });
+
+    it("Should add the default 20% margin to the estimated gas", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "admin.dnp.dappnode.eth",
+        developerAddress: publisher
+      });
+      // 104321 * 1.2 = 125185.2
+      expect(txData.gasLimit).to.equal(125186);
+    });
+
+    it("Should add a custom margin to the estimated gas", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "new-repo.dnp.dappnode.eth",
+        developerAddress: publisher,
+        gasMargin: 50
+      });
+      // 104321 * 1.5 = 156481.5
+      expect(txData.gasLimit).to.equal(156482);
+    });
+
+    it("Should fallback to 300000 if newVersion can't be estimated", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "admin.dnp.dappnode.eth",
+        developerAddress: developer
+      });
+      expect(txData.gasLimit).to.equal(300000);
+    });
+
+    it("Should fallback to 1100000 if newRepoWithVersion can't be estimated", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "new-repo.dnp.dappnode.eth",
+        developerAddress: developer
+      });
+      expect(txData.gasLimit).to.equal(1100000);
+    });
+
+    it("Should fallback to 1500000 if the forward call can't be estimated", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "admin.dnp.dappnode.eth",
+        developerAddress: publisher,
+        forwarderAddress: forwarder
+      });
+      expect(txData.to).to.equal(forwarder);
+      expect(txData.gasLimit).to.equal(1500000);
+    });
+
+    it("Should suggest fees from the latest base fee", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "admin.dnp.dappnode.eth",
+        developerAddress: publisher
+      });
+      // 2 * 1 gwei base fee + 1.5 gwei priority fee
+      expect(txData.maxFeePerGas).to.equal("3500000000");
+      expect(txData.maxPriorityFeePerGas).to.equal("1500000000");
+    });
+  });
+
+  describe("Non EIP-1559 chain", () => {
+    const mock = createMockChain({ baseFeePerGas: null });
+
+    it("Should not suggest fees", async () => {
+      const txData = await runGeneratePublishTx(mock.url, {
+        name: "admin.dnp.dappnode.eth",
+        developerAddress: publisher
+      });
+      expect(txData.gasLimit).to.equal(125186);
+      expect(txData).to.not.have.property("maxFeePerGas");
+      expect(txData).to.not.have.property("maxPriorityFeePerGas");
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { generateSafeTx } from "../../src/tasks/generateSafeTx";
+import { getSafeTxHash } from "../../src/utils/safe";
+import { ListrContextBuildAndPublish, TxData } from "../../src/types";
+import {
+  testDir,
+  cleanTestDir,
+  createMockEthRpc,
+  useMockServer
+} from "../testUtils";
+
+describe("generateSafeTx", function () {
+  this.timeout(60 * 1000);
+
+  const safeAddress = "0x849D52316331967b6fF1198e5E32A0eB168D039d";
+  const txData: TxData = {
+    to: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+    value: 0,
+    data: "0x73053410",
+    gasLimit: 300000,
+    ensName: "admin.dnp.dappnode.eth",
+    currentVersion: "0.1.0",
+    releaseMultiHash: "/ipfs/Qm",
+    chainId: 1
+  };
+
+  // Mock of the Safe nonce() call
+  const safeInterface = new ethers.utils.Interface([
+    "function nonce() view returns (uint256)"
+  ]);
+  const server = createMockEthRpc(1, ({ to }) => {
+    if (to.toLowerCase() !== safeAddress.toLowerCase())
+      throw Error(`Unknown contract ${to}`);
+    return safeInterface.encodeFunctionResult("nonce", [5]);
+  });
+  const mock = useMockServer(server);
+
+  before("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  it("Should write the batch of an existing release without build dir", async () => {
+    // With --release_hash the build directory is never created
+    const ctx = {
+      buildDir: path.join(testDir, "build_0.1.0"),
+      txData
+    } as ListrContextBuildAndPublish;
+
+    const { safeTx } = await generateSafeTx({
+      dir: testDir,
+      safeAddress,
+      ethProvider: mock.url,
+      silent: true
+    }).run(ctx);
+
+    const batchPath = path.join(testDir, "safe-tx-builder_0.1.0.json");
+    expect(safeTx).to.deep.equal({
+      safeAddress,
+      batchPath,
+      nonce: 5,
+      safeTxHash: getSafeTxHash({ txData, safeAddress, nonce: 5 })
+    });
+    const batch = JSON.parse(fs.readFileSync(batchPath, "utf8"));
+    expect(batch.transactions).to.deep.equal([
+      { to: txData.to, value: "0", data: txData.data }
+    ]);
+  });
+});
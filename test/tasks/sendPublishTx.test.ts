@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { defaultManifestFormat } from "../../src/params";
+import { sendPublishTx } from "../../src/tasks/sendPublishTx";
+import { writeManifest } from "../../src/utils/manifest";
+import { encodeNewVersionCall } from "../../src/utils/Apm";
+import { readReleaseRecord } from "../../src/utils/releaseRecord";
+import { ListrContextBuildAndPublish, TxData } from "../../src/types";
+import {
+  testDir,
+  cleanTestDir,
+  createMockEthRpc,
+  mockApmContracts,
+  useMockServer,
+  expectRejection
+} from "../testUtils";
+
+describe("sendPublishTx", function () {
+  this.timeout(60 * 1000);
+
+  // Well known development private key, do not use in production
+  const wallet = new ethers.Wallet(
+    "0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d"
+  );
+  const repoAddress = "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455";
+  const chainId = 1337;
+
+  const sentTxs: ethers.Transaction[] = [];
+  const server = createMockEthRpc(
+    chainId,
+    mockApmContracts({
+      registry: {
+        name: "dnp.dappnode.eth",
+        address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+        repoCreators: []
+      },
+      repos: {
+        "admin.dnp.dappnode.eth": {
+          address: repoAddress,
+          publishers: [wallet.address]
+        }
+      }
+    }),
+    { onSendTransaction: tx => sentTxs.push(tx) }
+  );
+  const mock = useMockServer(server);
+
+  beforeEach("Clean testDir", () => {
+    cleanTestDir();
+    sentTxs.length = 0;
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  const txData: TxData = {
+    to: repoAddress,
+    value: 0,
+    data: encodeNewVersionCall({
+      version: "0.1.0",
+      contractAddress: ethers.constants.AddressZero,
+      contentURI: "0x2f697066732f516d" // "/ipfs/Qm"
+    }),
+    gasLimit: 120000,
+    maxFeePerGas: "3500000000",
+    maxPriorityFeePerGas: "1500000000",
+    ensName: "admin.dnp.dappnode.eth",
+    currentVersion: "0.1.0",
+    releaseMultiHash: "/ipfs/Qm",
+    chainId
+  };
+
+  async function runSendPublishTx(
+    txDataToSend: TxData,
+    signer = wallet
+  ): Promise<ListrContextBuildAndPublish> {
+    writeManifest(
+      { name: "admin.dnp.dappnode.eth", version: "0.1.0" },
+      defaultManifestFormat,
+      { dir: testDir }
+    );
+    const tasks = sendPublishTx({
+      dir: testDir,
+      wallet: signer,
+      ethProvider: mock.url,
+      // A local dev chain
+      network: "custom",
+      silent: true
+    });
+    return await tasks.run({
+      txData: txDataToSend
+    } as ListrContextBuildAndPublish);
+  }
+
+  it("Should sign, broadcast and wait for the publish tx", async () => {
+    const { txHash } = await runSendPublishTx(txData);
+
+    expect(sentTxs).to.have.length(1);
+    const [tx] = sentTxs;
+    expect(tx.hash).to.equal(txHash);
+    expect({
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit.toNumber(),
+      maxFeePerGas: tx.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+      chainId: tx.chainId
+    }).to.deep.equal({
+      from: wallet.address,
+      to: repoAddress,
+      data: txData.data,
+      nonce: 0,
+      gasLimit: 120000,
+      maxFeePerGas: "3500000000",
+      maxPriorityFeePerGas: "1500000000",
+      chainId
+    });
+
+    const {
+      txHash: recordedTxHash,
+      chainId: recordedChainId
+    } = readReleaseRecord(testDir, "0.1.0");
+    expect(recordedTxHash).to.equal(txHash);
+    expect(recordedChainId).to.equal(chainId);
+  });
+
+  it("Should let the signer set the fees missing in txData", async () => {
+    await runSendPublishTx({
+      ...txData,
+      maxFeePerGas: undefined,
+      maxPriorityFeePerGas: undefined
+    });
+
+    expect(sentTxs).to.have.length(1);
+    const [tx] = sentTxs;
+    expect(tx.type).to.equal(2);
+    // The fees are computed by the signer from the latest block
+    expect(tx.maxPriorityFeePerGas?.toString()).to.equal("1500000000");
+  });
+
+  it("Should throw if the tx reverts and keep its hash", async () => {
+    const notPublisher = ethers.Wallet.createRandom();
+    const error = await expectRejection(runSendPublishTx(txData, notPublisher));
+    expect(error.message).to.include("transaction failed");
+
+    expect(sentTxs).to.have.length(1);
+    const { txHash } = readReleaseRecord(testDir, "0.1.0");
+    expect(txHash).to.equal(sentTxs[0].hash);
+  });
+
+  it("Should throw if the provider is connected to another chain", async () => {
+    const error = await expectRejection(
+      runSendPublishTx({ ...txData, chainId: 1 })
+    );
+    expect(error.message).to.include("chainId address mismatch");
+    expect(sentTxs).to.have.length(0);
+    expect(readReleaseRecord(testDir, "0.1.0").txHash).to.equal(undefined);
+  });
+});
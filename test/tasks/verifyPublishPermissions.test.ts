@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { defaultManifestFormat } from "../../src/params";
+import { verifyPublishPermissions } from "../../src/tasks/verifyPublishPermissions";
+import { writeManifest } from "../../src/utils/manifest";
+import { ListrContextBuildAndPublish } from "../../src/types";
+import {
+  testDir,
+  cleanTestDir,
+  createMockEthRpc,
+  mockApmContracts,
+  useMockServer,
+  expectRejection
+} from "../testUtils";
+
+describe("verifyPublishPermissions", function () {
+  this.timeout(60 * 1000);
+
+  const publisher = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+  const developer = "0x1111111111111111111111111111111111111111";
+  const safe = "0x2222222222222222222222222222222222222222";
+
+  const server = createMockEthRpc(
+    1,
+    mockApmContracts({
+      registry: {
+        name: "dnp.dappnode.eth",
+        address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+        repoCreators: [publisher, safe]
+      },
+      repos: {
+        "admin.dnp.dappnode.eth": {
+          address: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+          publishers: [publisher, safe]
+        }
+      }
+    })
+  );
+  const mock = useMockServer(server);
+
+  beforeEach("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  async function runVerifyPublishPermissions({
+    name,
+    developerAddress,
+    signerAddress,
+    safeAddress
+  }: {
+    name: string;
+    developerAddress?: string;
+    signerAddress?: string;
+    safeAddress?: string;
+  }): Promise<string | undefined> {
+    writeManifest({ name, version: "0.1.0" }, defaultManifestFormat, {
+      dir: testDir
+    });
+    const tasks = verifyPublishPermissions({
+      dir: testDir,
+      ethProvider: mock.url,
+      developerAddress,
+      signerAddress,
+      safeAddress,
+      silent: true
+    });
+    await tasks.run({} as ListrContextBuildAndPublish);
+    // Warnings are shown by skipping the task
+    return tasks.tasks[0].output;
+  }
+
+  describe("Existing repo", () => {
+    const name = "admin.dnp.dappnode.eth";
+
+    it("Should accept a signer with CREATE_VERSION_ROLE", async () => {
+      const warning = await runVerifyPublishPermissions({
+        name,
+        developerAddress: developer,
+        signerAddress: publisher
+      });
+      expect(warning).to.equal(undefined);
+    });
+
+    it("Should abort if the signer can't create versions", async () => {
+      const error = await expectRejection(
+        runVerifyPublishPermissions({ name, signerAddress: developer })
+      );
+      expect(error.message).to.include(
+        `${developer} does not have CREATE_VERSION_ROLE`
+      );
+    });
+
+    it("Should warn if the developer can't create versions", async () => {
+      const warning = await runVerifyPublishPermissions({
+        name,
+        developerAddress: developer
+      });
+      expect(warning).to.include(
+        `Warning: ${developer} does not have CREATE_VERSION_ROLE`
+      );
+    });
+
+    it("Should check the Safe instead of the developer", async () => {
+      const warning = await runVerifyPublishPermissions({
+        name,
+        developerAddress: developer,
+        safeAddress: safe
+      });
+      expect(warning).to.equal(undefined);
+    });
+  });
+
+  describe("New repo", () => {
+    const name = "new-repo.dnp.dappnode.eth";
+
+    it("Should accept a signer that can create repos", async () => {
+      const warning = await runVerifyPublishPermissions({
+        name,
+        developerAddress: developer,
+        signerAddress: publisher
+      });
+      expect(warning).to.equal(undefined);
+    });
+
+    it("Should abort if the registry rejects the signer", async () => {
+      const error = await expectRejection(
+        runVerifyPublishPermissions({
+          name,
+          developerAddress: developer,
+          signerAddress: developer
+        })
+      );
+      expect(error.message).to.include(
+        `The registry would reject creating the repo ${name}: APP_AUTH_FAILED`
+      );
+    });
+
+    it("Should warn if the registry rejects the developer", async () => {
+      const warning = await runVerifyPublishPermissions({
+        name,
+        developerAddress: developer
+      });
+      expect(warning).to.include("Warning: The registry would reject");
+    });
+
+    it("Should simulate the repo creation from the Safe", async () => {
+      const warning = await runVerifyPublishPermissions({
+        name,
+        developerAddress: developer,
+        safeAddress: safe
+      });
+      expect(warning).to.equal(undefined);
+    });
+  });
+});
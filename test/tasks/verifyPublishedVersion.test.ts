@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import { defaultManifestFormat } from "../../src/params";
+import { verifyPublishedVersion } from "../../src/tasks/verifyPublishedVersion";
+import { Apm, ApmVersion } from "../../src/utils/Apm";
+import { writeManifest } from "../../src/utils/manifest";
+import { addReleaseRecord } from "../../src/utils/releaseRecord";
+import { testDir, cleanTestDir, expectRejection } from "../testUtils";
+
+/**
+ * Returns the queued results of getVersion, then the last one
+ */
+class ApmStub extends Apm {
+  results: (ApmVersion | null)[];
+  constructor(results: (ApmVersion | null)[]) {
+    super("http://localhost:8545");
+    this.results = results;
+  }
+  async getVersion(): Promise<ApmVersion | null> {
+    return this.results.length > 1
+      ? this.results.shift() || null
+      : this.results[0];
+  }
+}
+
+describe("verifyPublishedVersion", function () {
+  this.timeout(60 * 1000);
+
+  const name = "admin.dnp.dappnode.eth";
+  const version = "0.1.0";
+  const hash = "/ipfs/QmRelease";
+  const apmVersion = (contentURI: string): ApmVersion => ({
+    version,
+    contractAddress: "0x0000000000000000000000000000000000000000",
+    contentURI
+  });
+
+  before("Write manifest and release record", () => {
+    cleanTestDir();
+    writeManifest({ name, version }, defaultManifestFormat, { dir: testDir });
+    addReleaseRecord({ dir: testDir, version, hash, to: "ipfs" });
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  async function runVerifyPublishedVersion(
+    results: (ApmVersion | null)[],
+    timeout?: number
+  ): Promise<void> {
+    await verifyPublishedVersion({
+      dir: testDir,
+      ethProvider: "http://localhost:8545",
+      version,
+      timeout,
+      pollInterval: 10,
+      apm: new ApmStub(results),
+      silent: true
+    }).run();
+  }
+
+  it("Should verify a published version", async () => {
+    await runVerifyPublishedVersion([apmVersion(hash)]);
+  });
+
+  it("Should wait until the version is published", async () => {
+    await runVerifyPublishedVersion([null, null, apmVersion(hash)], 10000);
+  });
+
+  it("Should throw if APM serves a different release", async () => {
+    const error = await expectRejection(
+      runVerifyPublishedVersion([apmVersion("/ipfs/QmOther")])
+    );
+    expect(error.message).to.include("MISMATCH");
+    expect(error.message).to.include("/ipfs/QmOther");
+  });
+
+  it("Should throw if the version is not published", async () => {
+    const error = await expectRejection(runVerifyPublishedVersion([null]));
+    expect(error.message).to.include(
+      `Version ${version} of ${name} is not published`
+    );
+  });
+
+  it("Should throw if the version is not published before the timeout", async () => {
+    const start = Date.now();
+    const error = await expectRejection(runVerifyPublishedVersion([null], 50));
+    expect(error.message).to.include("is not published");
+    expect(Date.now() - start).to.be.at.least(50);
+  });
+});
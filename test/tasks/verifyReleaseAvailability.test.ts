@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import Listr from "listr";
+import { URL } from "url";
+import { expect } from "chai";
+import { verifyReleaseAvailability } from "../../src/tasks/verifyReleaseAvailability";
+import { ListrContextBuildAndPublish } from "../../src/types";
+import {
+  testDir,
+  cleanTestDir,
+  useMockServer,
+  expectRejection
+} from "../testUtils";
+
+describe("verifyReleaseAvailability", function () {
+  this.timeout(60 * 1000);
+
+  const buildDir = path.join(testDir, "build_0.1.0");
+  const releaseFiles: { [name: string]: string } = {
+    "dappnode_package.json": "{}",
+    "docker-compose.yml": "version: '3.4'"
+  };
+
+  // Mock of a gateway, each release serves the files of buildDir with a
+  // different issue. QmUnavailable fails as a gateway timeout
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "", "http://localhost");
+    const [, , releaseHash, fileName] = url.pathname.split("/");
+    const size = Buffer.byteLength(releaseFiles[fileName] || "");
+    switch (releaseHash) {
+      case "QmRelease":
+        res.setHeader("Content-Length", size);
+        break;
+      case "QmMissingFile":
+        if (fileName === "docker-compose.yml") res.statusCode = 404;
+        else res.setHeader("Content-Length", size);
+        break;
+      case "QmWrongSize":
+        res.setHeader("Content-Length", size + 1);
+        break;
+      case "QmUnknownSize":
+        // HEAD responses without Content-Length
+        break;
+      default:
+        res.statusCode = 504;
+    }
+    res.end();
+  });
+  const mock = useMockServer(server);
+
+  before("Write release files", () => {
+    cleanTestDir();
+    fs.mkdirSync(buildDir, { recursive: true });
+    for (const [name, data] of Object.entries(releaseFiles))
+      fs.writeFileSync(path.join(buildDir, name), data);
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  async function runVerifyReleaseAvailability(
+    releaseHash: string
+  ): Promise<Listr.ListrTaskWrapper<ListrContextBuildAndPublish>> {
+    const tasks = new Listr<ListrContextBuildAndPublish>(
+      verifyReleaseAvailability({
+        buildDir,
+        gatewayUrl: mock.url,
+        timeout: 50,
+        pollInterval: 10
+      }),
+      { renderer: "silent" }
+    );
+    await tasks.run({ releaseHash } as ListrContextBuildAndPublish);
+    return tasks.tasks[0];
+  }
+
+  it("Should verify a release with the files of the build", async () => {
+    const task = await runVerifyReleaseAvailability("/ipfs/QmRelease");
+    expect(task.title).to.equal("Verify release availability");
+  });
+
+  it("Should warn if the release is not reachable in time", async () => {
+    const task = await runVerifyReleaseAvailability("/ipfs/QmUnavailable");
+    expect(task.output).to.equal(
+      `Warning: release /ipfs/QmUnavailable is not reachable through ${mock.url}: dappnode_package.json: 504 Gateway Timeout`
+    );
+  });
+
+  it("Should throw if a file is missing", async () => {
+    const error = await expectRejection(
+      runVerifyReleaseAvailability("/ipfs/QmMissingFile")
+    );
+    expect(error.message).to.include("docker-compose.yml not found");
+  });
+
+  it("Should throw if a file has a different size", async () => {
+    const error = await expectRejection(
+      runVerifyReleaseAvailability("/ipfs/QmWrongSize")
+    );
+    expect(error.message).to.include("dappnode_package.json size 3 != 2");
+  });
+
+  it("Should report files of unknown size", async () => {
+    const task = await runVerifyReleaseAvailability("/ipfs/QmUnknownSize");
+    expect(task.title).to.equal(
+      "Verify release availability (size unknown: dappnode_package.json, docker-compose.yml)"
+    );
+  });
+
+  it("Should skip releases not in IPFS", async () => {
+    const task = await runVerifyReleaseAvailability("/bzz/a5e0183cee00");
+    expect(task.output).to.equal("Only supported for IPFS releases");
+  });
+});
@@ -1,6 +1,12 @@
 import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
 import rimraf from "rimraf";
-import { getImageTag } from "../src/params";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { getImageTag, networks } from "../src/params";
+import repoAbi from "../src/contracts/RepoAbi.json";
+import registryAbi from "../src/contracts/ApmRegistryAbi.json";
 import { Manifest, Compose } from "../src/types";
 
 export const testDir = "test_files";
@@ -24,3 +30,378 @@ export function generateCompose(manifest: Manifest): Compose {
     }
   };
 }
+
+/**
+ * Starts `server` on a free port before the tests of the current describe
+ * block and stops it after them
+ * @returns mock.url = "http://localhost:41235", set once the server starts
+ */
+export function useMockServer(server: http.Server): { url: string } {
+  const mock = { url: "" };
+  before("Start mock server", done => {
+    server.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      mock.url = `http://localhost:${port}`;
+      done();
+    });
+  });
+  after("Stop mock server", done => {
+    server.close(done);
+  });
+  return mock;
+}
+
+/**
+ * Asserts that `promise` rejects
+ * @returns the rejection error, to assert its message
+ */
+export async function expectRejection(
+  promise: Promise<unknown>
+): Promise<Error> {
+  try {
+    await promise;
+  } catch (e) {
+    return e;
+  }
+  return expect.fail("Expected promise to reject");
+}
+
+export interface MockEthCall {
+  to: string;
+  from?: string;
+  data: string;
+}
+
+export interface MockEthLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface MockEthChainOptions {
+  /** Number of the latest block, where sent transactions are mined */
+  blockNumber?: number;
+  /**
+   * Logs returned by `eth_getLogs`. If not set `eth_getLogs` is unsupported,
+   * as in providers that limit the block range of logs queries
+   */
+  logs?: MockEthLog[];
+  /** Gas estimated and used by every transaction */
+  gasUsed?: number;
+  /** Base fee of the latest block in wei, null for chains without EIP-1559 */
+  baseFeePerGas?: number | null;
+  gasPrice?: number;
+  /** Called with every transaction received by `eth_sendRawTransaction` */
+  onSendTransaction?: (tx: ethers.Transaction) => void;
+}
+
+/**
+ * Mock of an Ethereum JSON RPC. `eth_call` requests are resolved by `onCall`
+ * which returns the ABI encoded result. Errors thrown by `onCall` are
+ * returned as reverts with their message as reason.
+ * Sent transactions are executed with `onCall` and mined instantly in the
+ * latest block, with a failed receipt if they revert.
+ * Block timestamps are given by `getMockBlockTimestamp`
+ */
+export function createMockEthRpc(
+  chainId: number,
+  onCall: (tx: MockEthCall) => string,
+  {
+    blockNumber = 1,
+    logs,
+    gasUsed = 100000,
+    baseFeePerGas = 1e9,
+    gasPrice = 2e9,
+    onSendTransaction
+  }: MockEthChainOptions = {}
+): http.Server {
+  const getBlockHash = (number: number): string =>
+    ethers.utils.id(`block ${number}`);
+  const txs = new Map<string, { tx: ethers.Transaction; status: number }>();
+  const errorInterface = new ethers.utils.Interface(["function Error(string)"]);
+
+  const getRevertError = (
+    e: Error
+  ): { code: number; message: string; data: string } => ({
+    code: 3,
+    message: `execution reverted: ${e.message}`,
+    data: errorInterface.encodeFunctionData("Error", [e.message])
+  });
+
+  return http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(body);
+      const reply = (response: { result?: unknown; error?: unknown }): void => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ jsonrpc: "2.0", id, ...response }));
+      };
+
+      switch (method) {
+        case "eth_chainId":
+          return reply({ result: ethers.utils.hexValue(chainId) });
+        case "net_version":
+          return reply({ result: String(chainId) });
+        case "net_listening":
+          return reply({ result: true });
+        case "eth_call":
+          try {
+            return reply({ result: onCall(params[0]) });
+          } catch (e) {
+            return reply({ error: getRevertError(e) });
+          }
+        case "eth_estimateGas":
+          try {
+            onCall(params[0]);
+            return reply({ result: ethers.utils.hexValue(gasUsed) });
+          } catch (e) {
+            return reply({ error: getRevertError(e) });
+          }
+        case "eth_blockNumber":
+          return reply({ result: ethers.utils.hexValue(blockNumber) });
+        case "eth_getBlockByNumber": {
+          const number =
+            params[0] === "latest" ? blockNumber : parseInt(params[0]);
+          return reply({
+            result: {
+              hash: getBlockHash(number),
+              parentHash: getBlockHash(number - 1),
+              number: ethers.utils.hexValue(number),
+              timestamp: ethers.utils.hexValue(getMockBlockTimestamp(number)),
+              nonce: "0x0000000000000000",
+              difficulty: "0x0",
+              gasLimit: ethers.utils.hexValue(30000000),
+              gasUsed: "0x0",
+              miner: ethers.constants.AddressZero,
+              extraData: "0x",
+              transactions: [],
+              ...(baseFeePerGas === null
+                ? {}
+                : { baseFeePerGas: ethers.utils.hexValue(baseFeePerGas) })
+            }
+          });
+        }
+        case "eth_getLogs": {
+          if (!logs) break;
+          const { address, topics = [] } = params[0];
+          return reply({
+            result: logs
+              .filter(
+                log =>
+                  (!address ||
+                    log.address.toLowerCase() === address.toLowerCase()) &&
+                  (!topics[0] || log.topics[0] === topics[0])
+              )
+              .map((log, logIndex) => ({
+                ...log,
+                blockNumber: ethers.utils.hexValue(log.blockNumber),
+                blockHash: getBlockHash(log.blockNumber),
+                transactionIndex: "0x0",
+                logIndex: ethers.utils.hexValue(logIndex),
+                removed: false
+              }))
+          });
+        }
+        case "eth_gasPrice":
+          return reply({ result: ethers.utils.hexValue(gasPrice) });
+        case "eth_getTransactionCount": {
+          const [address] = params;
+          const nonce = Array.from(txs.values()).filter(
+            ({ tx }) => tx.from?.toLowerCase() === address.toLowerCase()
+          ).length;
+          return reply({ result: ethers.utils.hexValue(nonce) });
+        }
+        case "eth_sendRawTransaction": {
+          const tx = ethers.utils.parseTransaction(params[0]);
+          if (!tx.hash || !tx.from || !tx.to)
+            return reply({ error: { code: -32000, message: "Invalid tx" } });
+          if (tx.chainId !== chainId)
+            return reply({
+              error: { code: -32000, message: "Invalid chainId" }
+            });
+          let status = 1;
+          try {
+            onCall({ to: tx.to, from: tx.from, data: tx.data });
+          } catch (e) {
+            status = 0;
+          }
+          txs.set(tx.hash, { tx, status });
+          if (onSendTransaction) onSendTransaction(tx);
+          return reply({ result: tx.hash });
+        }
+        case "eth_getTransactionReceipt": {
+          const sent = txs.get(params[0]);
+          if (!sent) return reply({ result: null });
+          const { tx, status } = sent;
+          return reply({
+            result: {
+              to: tx.to,
+              from: tx.from,
+              contractAddress: null,
+              transactionIndex: "0x0",
+              gasUsed: ethers.utils.hexValue(gasUsed),
+              logsBloom: ethers.utils.hexZeroPad("0x", 256),
+              blockHash: getBlockHash(blockNumber),
+              transactionHash: tx.hash,
+              logs: [],
+              blockNumber: ethers.utils.hexValue(blockNumber),
+              cumulativeGasUsed: ethers.utils.hexValue(gasUsed),
+              status: ethers.utils.hexValue(status),
+              type: ethers.utils.hexValue(tx.type || 0)
+            }
+          });
+        }
+      }
+      return reply({
+        error: { code: -32601, message: `Unsupported method ${method}` }
+      });
+    });
+  });
+}
+
+/**
+ * Timestamp in seconds of the blocks of `createMockEthRpc`, 12 seconds apart
+ */
+export function getMockBlockTimestamp(blockNumber: number): number {
+  return 1600000000 + 12 * blockNumber;
+}
+
+export interface MockApmRepo {
+  address: string;
+  publishers: string[];
+  /** Published versions, with the block of their NewVersion event if any */
+  versions?: { version: string; contentURI: string; blockNumber?: number }[];
+}
+
+/**
+ * Mock of the mainnet ENS and an APM registry with its repos, to be used
+ * as `onCall` of `createMockEthRpc`. Reverts with the reasons of the
+ * registry if the repo exists or `from` can't create repos, and of the repos
+ * if `from` can't publish versions
+ */
+export function mockApmContracts({
+  registry,
+  repos
+}: {
+  registry: { name: string; address: string; repoCreators: string[] };
+  repos: { [ensName: string]: MockApmRepo };
+}): (tx: MockEthCall) => string {
+  const resolverAddress = "0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41";
+  const addresses = new Map<string, string>([
+    [ethers.utils.namehash(registry.name), registry.address],
+    ...Object.entries(repos).map(([ensName, { address }]): [string, string] => [
+      ethers.utils.namehash(ensName),
+      address
+    ])
+  ]);
+  const ensInterface = new ethers.utils.Interface([
+    "function resolver(bytes32 node) view returns (address)",
+    "function addr(bytes32 node) view returns (address)",
+    "function supportsInterface(bytes4 interfaceID) view returns (bool)"
+  ]);
+  const repoInterface = new ethers.utils.Interface(repoAbi);
+  const registryInterface = new ethers.utils.Interface(registryAbi);
+  const createVersionRole = ethers.utils.id("CREATE_VERSION_ROLE");
+  const isAddress = (a: string, b: string): boolean =>
+    a.toLowerCase() === b.toLowerCase();
+
+  return ({ to, from, data }) => {
+    if (isAddress(to, networks.mainnet.ensRegistry || "")) {
+      const { args } = ensInterface.parseTransaction({ data });
+      const resolver = addresses.has(args.node)
+        ? resolverAddress
+        : ethers.constants.AddressZero;
+      return ensInterface.encodeFunctionResult("resolver", [resolver]);
+    }
+
+    if (isAddress(to, resolverAddress)) {
+      const { name, args } = ensInterface.parseTransaction({ data });
+      if (name === "supportsInterface")
+        return ensInterface.encodeFunctionResult(name, [false]);
+      const address = addresses.get(args.node) || ethers.constants.AddressZero;
+      return ensInterface.encodeFunctionResult(name, [address]);
+    }
+
+    if (isAddress(to, registry.address)) {
+      const { name, args } = registryInterface.parseTransaction({ data });
+      if (name !== "newRepoWithVersion") throw Error(`Unsupported ${name}`);
+      if (
+        !registry.repoCreators.some(creator => isAddress(creator, from || ""))
+      )
+        throw Error("APP_AUTH_FAILED");
+      if (repos[`${args._name}.${registry.name}`])
+        throw Error("ENSSUB_NAME_EXISTS");
+      return registryInterface.encodeFunctionResult(name, [
+        ethers.constants.AddressZero
+      ]);
+    }
+
+    for (const repo of Object.values(repos))
+      if (isAddress(to, repo.address)) {
+        const { name, args } = repoInterface.parseTransaction({ data });
+        if (name === "CREATE_VERSION_ROLE")
+          return repoInterface.encodeFunctionResult(name, [createVersionRole]);
+        if (name === "canPerform")
+          return repoInterface.encodeFunctionResult(name, [
+            args._role === createVersionRole &&
+              repo.publishers.some(publisher =>
+                isAddress(publisher, args._sender)
+              )
+          ]);
+        const versions = repo.versions || [];
+        if (name === "getVersionsCount")
+          return repoInterface.encodeFunctionResult(name, [versions.length]);
+        if (name === "getByVersionId" || name === "getLatest") {
+          // Version IDs start at 1
+          const versionId =
+            name === "getLatest" ? versions.length : args._versionId.toNumber();
+          const apmVersion = versions[versionId - 1];
+          if (!apmVersion) throw Error("REPO_INEXISTENT_VERSION");
+          return repoInterface.encodeFunctionResult(name, [
+            apmVersion.version.split("."),
+            ethers.constants.AddressZero,
+            ethers.utils.toUtf8Bytes(apmVersion.contentURI)
+          ]);
+        }
+        if (name === "newVersion") {
+          if (
+            !repo.publishers.some(publisher => isAddress(publisher, from || ""))
+          )
+            throw Error("APP_AUTH_FAILED");
+          return "0x";
+        }
+        throw Error(`Unsupported ${name}`);
+      }
+
+    throw Error(`Unknown contract ${to}`);
+  };
+}
+
+/**
+ * NewVersion events of the `repos` of `mockApmContracts`, to be used as
+ * `logs` of `createMockEthRpc`. Only for versions with a `blockNumber`
+ */
+export function mockApmVersionLogs(repos: {
+  [ensName: string]: MockApmRepo;
+}): MockEthLog[] {
+  const repoInterface = new ethers.utils.Interface(repoAbi);
+  const logs: MockEthLog[] = [];
+  for (const { address, versions = [] } of Object.values(repos))
+    versions.forEach(({ version, blockNumber }, i) => {
+      if (blockNumber === undefined) return;
+      const versionId = i + 1;
+      logs.push({
+        address,
+        ...repoInterface.encodeEventLog(repoInterface.getEvent("NewVersion"), [
+          versionId,
+          version.split(".")
+        ]),
+        blockNumber,
+        transactionHash: ethers.utils.id(`${address} ${versionId}`)
+      });
+    });
+  return logs;
+}
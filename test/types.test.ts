@@ -0,0 +1,61 @@
+import { expect } from "chai";
+import manifestSchema from "../src/schemas/manifest.schema.json";
+import { Manifest } from "../src/types";
+
+describe("types", () => {
+  describe("Manifest", () => {
+    // Fails to compile if a property is added to or removed from Manifest
+    // without updating this list
+    const manifestProps: { [K in keyof Required<Manifest>]: true } = {
+      name: true,
+      version: true,
+      upstreamVersion: true,
+      upstreamRepo: true,
+      upstreamArg: true,
+      shortDescription: true,
+      description: true,
+      type: true,
+      chain: true,
+      mainService: true,
+      dockerTimeout: true,
+      dependencies: true,
+      requirements: true,
+      globalEnvs: true,
+      architectures: true,
+      backup: true,
+      changelog: true,
+      warnings: true,
+      updateAlerts: true,
+      disclaimer: true,
+      style: true,
+      exposable: true,
+      author: true,
+      contributors: true,
+      categories: true,
+      keywords: true,
+      links: true,
+      repository: true,
+      bugs: true,
+      license: true,
+      avatar: true,
+      setupWizard: true
+    };
+
+    // Props handled by the SDK that are not part of the published schema
+    const propsNotInSchema = [
+      "upstreamRepo",
+      "upstreamArg",
+      "avatar",
+      "setupWizard"
+    ];
+
+    it("Should type every property of manifest.schema.json", () => {
+      const typeProps = Object.keys(manifestProps).filter(
+        prop => !propsNotInSchema.includes(prop)
+      );
+      expect(typeProps.sort()).to.deep.equal(
+        Object.keys(manifestSchema.properties).sort()
+      );
+    });
+  });
+});
@@ -1,6 +1,21 @@
 import semver from "semver";
 import { expect } from "chai";
-import { Apm } from "../../src/utils/Apm";
+import { ethers } from "ethers";
+import {
+  Apm,
+  encodeForwardCall,
+  encodeNewVersionCall
+} from "../../src/utils/Apm";
+import { verifyEthConnection } from "../../src/utils/verifyEthConnection";
+import {
+  createMockEthRpc,
+  mockApmContracts,
+  mockApmVersionLogs,
+  getMockBlockTimestamp,
+  useMockServer,
+  expectRejection,
+  MockApmRepo
+} from "../testUtils";
 
 describe("Apm constructor", () => {
   const dnpName = "admin.dnp.dappnode.eth";
@@ -38,4 +53,239 @@ describe("Apm constructor", () => {
       `Resulting version is not a valid semver: ${semver}`
     );
   }).timeout(60 * 1000);
+
+  it("Should get all versions of a DNP name", async () => {
+    const apm = new Apm("infura");
+    const versions = await apm.getVersions(dnpName);
+    expect(versions.length).to.be.above(0);
+    const [firstVersion] = versions;
+    expect(firstVersion.versionId).to.equal(1);
+    expect(Boolean(semver.valid(firstVersion.version))).to.equal(
+      true,
+      `Resulting version is not a valid semver: ${firstVersion.version}`
+    );
+    expect(firstVersion.contentURI).to.be.a("string");
+  }).timeout(60 * 1000);
+});
+
+describe("Apm permissions", function () {
+  this.timeout(60 * 1000);
+
+  const dnpName = "admin.dnp.dappnode.eth";
+  const publisher = "0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B";
+  const developer = "0x1111111111111111111111111111111111111111";
+
+  const server = createMockEthRpc(
+    1,
+    mockApmContracts({
+      registry: {
+        name: "dnp.dappnode.eth",
+        address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+        repoCreators: [publisher]
+      },
+      repos: {
+        [dnpName]: {
+          address: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+          publishers: [publisher]
+        }
+      }
+    })
+  );
+  const mock = useMockServer(server);
+  let apm: Apm;
+  before("Connect to mock Ethereum RPC", () => {
+    apm = new Apm(mock.url);
+  });
+
+  it("Should check the CREATE_VERSION_ROLE of an address", async () => {
+    expect(await apm.canCreateVersion(dnpName, publisher)).to.equal(true);
+    expect(await apm.canCreateVersion(dnpName, developer)).to.equal(false);
+  });
+
+  it("Should throw checking the role in a repo that does not exist", async () => {
+    const error = await expectRejection(
+      apm.canCreateVersion("new-repo.dnp.dappnode.eth", publisher)
+    );
+    expect(error.message).to.include("NOREPO");
+  });
+
+  it("Should simulate the creation of a new repo", async () => {
+    await apm.verifyNewRepoWithVersion({
+      ensName: "new-repo.dnp.dappnode.eth",
+      developerAddress: developer,
+      version: "0.1.0",
+      from: publisher
+    });
+  });
+
+  it("Should throw with the reason of the registry", async () => {
+    const reasons: string[] = [];
+    for (const { ensName, from } of [
+      { ensName: "new-repo.dnp.dappnode.eth", from: developer },
+      { ensName: dnpName, from: publisher }
+    ])
+      try {
+        await apm.verifyNewRepoWithVersion({
+          ensName,
+          developerAddress: developer,
+          version: "0.1.0",
+          from
+        });
+      } catch (e) {
+        reasons.push(e.reason);
+      }
+    expect(reasons).to.deep.equal(["APP_AUTH_FAILED", "ENSSUB_NAME_EXISTS"]);
+  });
+});
+
+describe("Apm versions", function () {
+  this.timeout(60 * 1000);
+
+  const repos: { [ensName: string]: MockApmRepo } = {
+    "admin.dnp.dappnode.eth": {
+      address: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+      publishers: [],
+      versions: [
+        { version: "0.1.0", contentURI: "/ipfs/QmFirst", blockNumber: 10 },
+        { version: "0.1.1", contentURI: "/ipfs/QmSecond", blockNumber: 20 }
+      ]
+    },
+    "new-repo.dnp.dappnode.eth": {
+      address: "0x1111111111111111111111111111111111111111",
+      publishers: []
+    }
+  };
+  const registry = {
+    name: "dnp.dappnode.eth",
+    address: "0x266BFdb2124A68beB6769dC887BD655f78778923",
+    repoCreators: []
+  };
+
+  describe("With logs", () => {
+    const server = createMockEthRpc(1, mockApmContracts({ registry, repos }), {
+      blockNumber: 30,
+      logs: mockApmVersionLogs(repos)
+    });
+    const mock = useMockServer(server);
+
+    it("Should get all versions of a DNP name with their blocks", async () => {
+      const apm = new Apm(mock.url);
+      const versions = await apm.getVersions("admin.dnp.dappnode.eth");
+      expect(versions).to.deep.equal([
+        {
+          versionId: 1,
+          version: "0.1.0",
+          contractAddress: ethers.constants.AddressZero,
+          contentURI: "/ipfs/QmFirst",
+          blockNumber: 10,
+          timestamp: getMockBlockTimestamp(10),
+          txHash: mockApmVersionLogs(repos)[0].transactionHash
+        },
+        {
+          versionId: 2,
+          version: "0.1.1",
+          contractAddress: ethers.constants.AddressZero,
+          contentURI: "/ipfs/QmSecond",
+          blockNumber: 20,
+          timestamp: getMockBlockTimestamp(20),
+          txHash: mockApmVersionLogs(repos)[1].transactionHash
+        }
+      ]);
+    });
+
+    it("Should get the latest version of a DNP name", async () => {
+      const apm = new Apm(mock.url);
+      expect(await apm.getLatestVersion("admin.dnp.dappnode.eth")).to.equal(
+        "0.1.1"
+      );
+    });
+
+    it("Should get no versions of an empty repo", async () => {
+      const apm = new Apm(mock.url);
+      expect(await apm.getVersions("new-repo.dnp.dappnode.eth")).to.deep.equal(
+        []
+      );
+    });
+
+    it("Should throw getting the versions of a repo that does not exist", async () => {
+      const apm = new Apm(mock.url);
+      const error = await expectRejection(
+        apm.getVersions("other-repo.dnp.dappnode.eth")
+      );
+      expect(error.message).to.include("NOREPO");
+    });
+  });
+
+  describe("Without logs", () => {
+    const server = createMockEthRpc(1, mockApmContracts({ registry, repos }));
+    const mock = useMockServer(server);
+
+    it("Should get all versions without block data", async () => {
+      const apm = new Apm(mock.url);
+      const versions = await apm.getVersions("admin.dnp.dappnode.eth");
+      expect(versions).to.deep.equal([
+        {
+          versionId: 1,
+          version: "0.1.0",
+          contractAddress: ethers.constants.AddressZero,
+          contentURI: "/ipfs/QmFirst"
+        },
+        {
+          versionId: 2,
+          version: "0.1.1",
+          contractAddress: ethers.constants.AddressZero,
+          contentURI: "/ipfs/QmSecond"
+        }
+      ]);
+    });
+  });
+});
+
+describe("Apm custom network", function () {
+  this.timeout(60 * 1000);
+
+  const server = createMockEthRpc(1337, () => "0x");
+  const mock = useMockServer(server);
+
+  it("Should use the chain of the eth provider", async () => {
+    await verifyEthConnection(mock.url, "custom");
+    const apm = new Apm(mock.url, "custom");
+    expect(await apm.getChainId()).to.equal(1337);
+  });
+
+  it("Should reject an eth provider of another chain", async () => {
+    const error = await expectRejection(
+      verifyEthConnection(mock.url, "mainnet")
+    );
+    expect(error.message).to.include(
+      "is connected to chainId 1337, but network mainnet has chainId 1"
+    );
+  });
+});
+
+describe("encodeForwardCall", () => {
+  it("Should wrap a newVersion call in an EVMScript", () => {
+    const to = "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455";
+    const data = encodeNewVersionCall({
+      version: "0.1.0",
+      contractAddress: ethers.constants.AddressZero,
+      contentURI: "0x2f697066732f516d"
+    });
+
+    const forwarder = new ethers.utils.Interface([
+      "function forward(bytes _evmScript)"
+    ]);
+    const [evmScript] = forwarder.decodeFunctionData(
+      "forward",
+      encodeForwardCall({ to, data })
+    );
+
+    const dataLength = (data.length - 2) / 2;
+    expect(evmScript).to.equal(
+      "0x00000001" +
+        to.slice(2).toLowerCase() +
+        dataLength.toString(16).padStart(8, "0") +
+        data.slice(2)
+    );
+  });
 });
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import {
+  formatChangelog,
+  getChangelog,
+  parseChangelogSection
+} from "../../src/utils/changelog";
+import { shell } from "../../src/utils/shell";
+import { cleanTestDir, testDir } from "../testUtils";
+
+describe("utils / changelog", () => {
+  describe("parseChangelogSection", () => {
+    const markdown = `# Changelog
+
+## [0.2.1] - 2020-10-01
+
+### Fixed
+- Restart geth on config changes
+
+## v0.2.0
+
+- Add metrics
+
+## 0.1.0+build.1
+
+- Initial release
+`;
+
+    it("Should return the section of a version", () => {
+      expect(parseChangelogSection(markdown, "0.2.1")).to.equal(
+        "### Fixed\n- Restart geth on config changes"
+      );
+      expect(parseChangelogSection(markdown, "0.2.0")).to.equal(
+        "- Add metrics"
+      );
+      expect(parseChangelogSection(markdown, "0.1.0+build.1")).to.equal(
+        "- Initial release"
+      );
+    });
+
+    it("Should return null for a version without section", () => {
+      expect(parseChangelogSection(markdown, "0.2.2")).to.equal(null);
+      expect(parseChangelogSection(markdown, "0.2.10")).to.equal(null);
+      expect(parseChangelogSection(markdown, "0.1.0+build")).to.equal(null);
+    });
+  });
+
+  describe("formatChangelog", () => {
+    it("Should group conventional commits", () => {
+      expect(
+        formatChangelog([
+          "fix: restart on config changes (#14)",
+          "Bump upstream version (#13)",
+          "feat(geth)!: drop legacy ENVs",
+          "feat(geth): add metrics"
+        ])
+      ).to.equal(`**Breaking changes**
+- **geth:** drop legacy ENVs
+
+**Features**
+- **geth:** add metrics
+
+**Bug fixes**
+- restart on config changes (#14)
+
+**Other changes**
+- Bump upstream version (#13)`);
+    });
+
+    it("Should list regular commits without headings", () => {
+      expect(
+        formatChangelog(["Bump upstream version (#13)", "Update avatar"])
+      ).to.equal(`- Bump upstream version (#13)\n- Update avatar`);
+    });
+  });
+
+  describe("getChangelog", () => {
+    before("Create a git repo in testDir", async () => {
+      cleanTestDir();
+      const git = (args: string): Promise<string> =>
+        shell(`git -c user.name=test -c user.email=test@test ${args}`, {
+          cwd: testDir
+        });
+      await git("init");
+      await git(`commit --allow-empty -m "Initial commit"`);
+      await git("tag v0.1.0");
+      await git(`commit --allow-empty -m "feat: add metrics"`);
+      await git(`commit --allow-empty -m "fix: restart on config changes"`);
+    });
+    after("Clean testDir", () => cleanTestDir());
+
+    it("Should generate the changelog from the commits of dir", async () => {
+      expect(await getChangelog({ dir: testDir, version: "0.1.1" })).to
+        .equal(`**Features**
+- add metrics
+
+**Bug fixes**
+- restart on config changes`);
+    });
+  });
+});
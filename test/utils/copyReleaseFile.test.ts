@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { releaseFiles, releaseFilesDefaultNames } from "../../src/params";
+import {
+  copyReleaseFile,
+  verifyReleaseFileSize
+} from "../../src/utils/copyReleaseFile";
+import { cleanTestDir, testDir } from "../testUtils";
+
+describe("utils / copyReleaseFile", () => {
+  const fromDir = path.join(testDir, "package");
+  const toDir = path.join(testDir, "build_0.1.0");
+  const fileConfig = { ...releaseFiles.setupWizard, id: "setupWizard" };
+  const filepath = path.join(fromDir, "setup-wizard.yml");
+
+  beforeEach("Clean testDir", () => {
+    cleanTestDir();
+    fs.mkdirSync(fromDir, { recursive: true });
+    fs.mkdirSync(toDir, { recursive: true });
+  });
+  after("Clean testDir", () => cleanTestDir());
+
+  describe("verifyReleaseFileSize", () => {
+    it("Should accept a file of the max size", () => {
+      fs.writeFileSync(filepath, Buffer.alloc(fileConfig.maxSize));
+      verifyReleaseFileSize(fileConfig, filepath);
+    });
+
+    it("Should reject a file over the max size", () => {
+      fs.writeFileSync(filepath, Buffer.alloc(fileConfig.maxSize + 1));
+      expect(() => verifyReleaseFileSize(fileConfig, filepath)).to.throw(
+        `setupWizard ${filepath} is too large: 100 KB. Max size for setupWizard files is 100 KB. Use --ignore_size_limits to skip this check for local testing`
+      );
+    });
+  });
+
+  describe("copyReleaseFile", () => {
+    it("Should not copy a file over the max size", () => {
+      fs.writeFileSync(filepath, Buffer.alloc(2 * fileConfig.maxSize));
+      expect(() => copyReleaseFile({ fileConfig, fromDir, toDir })).to.throw(
+        "is too large: 200 KB"
+      );
+      expect(fs.readdirSync(toDir)).to.deep.equal([]);
+    });
+
+    it("Should copy a file over the max size with ignoreSizeLimits", () => {
+      fs.writeFileSync(filepath, Buffer.alloc(2 * fileConfig.maxSize));
+      copyReleaseFile({ fileConfig, fromDir, toDir, ignoreSizeLimits: true });
+      expect(fs.readdirSync(toDir)).to.deep.equal([
+        releaseFilesDefaultNames.setupWizard
+      ]);
+    });
+  });
+});
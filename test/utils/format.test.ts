@@ -1,7 +1,7 @@
 import { expect } from "chai";
 import { Manifest } from "../../src/types";
 import { GitHead } from "../../src/utils/git";
-import { prettyPinataPinName } from "../../src/utils/format";
+import { prettyBytes, prettyPinataPinName } from "../../src/utils/format";
 
 describe("utils / format", () => {
   describe("prettyPinataPinName", () => {
@@ -47,4 +47,19 @@ describe("utils / format", () => {
       });
     }
   });
+
+  describe("prettyBytes", () => {
+    const testCases: [number, string][] = [
+      [512, "512 B"],
+      [10e3, "10 KB"],
+      [12345, "12.35 KB"],
+      [10e6, "10 MB"]
+    ];
+
+    for (const [bytes, result] of testCases) {
+      it(`${bytes} bytes`, () => {
+        expect(prettyBytes(bytes)).to.equal(result);
+      });
+    }
+  });
 });
@@ -0,0 +1,28 @@
+import { expect } from "chai";
+import { getExplorerTxLink, getPublishTxLink } from "../../src/utils/getLinks";
+import { TxData } from "../../src/types";
+
+describe("utils / getLinks", () => {
+  const txData: TxData = {
+    to: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+    value: 0,
+    data: "0x",
+    gasLimit: 300000,
+    ensName: "admin.dnp.dappnode.eth",
+    currentVersion: "0.1.0",
+    releaseMultiHash: "/ipfs/Qm",
+    chainId: 100
+  };
+
+  it("Should include the chainId in the publish link", () => {
+    expect(getPublishTxLink(txData)).to.equal(
+      "https://dappnode.github.io/sdk-publish/?r=admin.dnp.dappnode.eth&v=0.1.0&h=%2Fipfs%2FQm&g=300000&c=100"
+    );
+  });
+
+  it("Should get the explorer link of a network", () => {
+    expect(getExplorerTxLink("gnosis", "0x01")).to.equal(
+      "https://gnosisscan.io/tx/0x01"
+    );
+  });
+});
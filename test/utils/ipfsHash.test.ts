@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { computeIpfsHash } from "../../src/utils/ipfsHash";
+import { cleanTestDir, testDir } from "../testUtils";
+
+/**
+ * Writes `size` bytes of deterministic contents, byte i is i % 251
+ */
+function writePatternFile(filePath: string, size: number): void {
+  const chunkSize = 262144;
+  const fd = fs.openSync(filePath, "w");
+  try {
+    for (let offset = 0; offset < size; offset += chunkSize) {
+      const chunk = Buffer.alloc(Math.min(chunkSize, size - offset));
+      for (let i = 0; i < chunk.length; i++) chunk[i] = (offset + i) % 251;
+      fs.writeSync(fd, chunk);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Expected hashes of the files the uploaders send, with the default settings
+// of `ipfs add`, as computed by ipfs-unixfs-importer with
+// { cidVersion: 0, rawLeaves: false }
+describe("utils / ipfsHash", function () {
+  this.timeout(60 * 1000);
+
+  beforeEach("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  it("Should compute the hash of an empty file", async () => {
+    const filePath = path.join(testDir, "empty");
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(filePath, "");
+    expect(await computeIpfsHash(filePath)).to.equal(
+      "/ipfs/QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH"
+    );
+  });
+
+  it("Should compute the hash of a file", async () => {
+    const filePath = path.join(testDir, "hello");
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(filePath, "hello world\n");
+    expect(await computeIpfsHash(filePath)).to.equal(
+      "/ipfs/QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o"
+    );
+  });
+
+  it("Should compute the hash of an empty directory", async () => {
+    const dirPath = path.join(testDir, "release");
+    fs.mkdirSync(dirPath, { recursive: true });
+    expect(await computeIpfsHash(dirPath)).to.equal(
+      "/ipfs/QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn"
+    );
+  });
+
+  it("Should ignore empty sub-directories", async () => {
+    const dirPath = path.join(testDir, "release");
+    fs.mkdirSync(path.join(dirPath, "empty"), { recursive: true });
+    expect(await computeIpfsHash(dirPath)).to.equal(
+      "/ipfs/QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn"
+    );
+  });
+
+  it("Should compute the hash of a multi-chunk file", async () => {
+    const filePath = path.join(testDir, "multi-chunk");
+    writePatternFile(filePath, 2 * 262144 + 1000);
+    expect(await computeIpfsHash(filePath)).to.equal(
+      "/ipfs/QmZcZxYrxuDHjzgVm2FwQQdPAhm7xHmm8kbXCax5JvkcoX"
+    );
+  });
+
+  it("Should compute the hash of a file with more than 174 chunks", async () => {
+    // 175 chunks need a second level in the balanced DAG
+    const filePath = path.join(testDir, "175-chunks");
+    writePatternFile(filePath, 174 * 262144 + 1);
+    expect(await computeIpfsHash(filePath)).to.equal(
+      "/ipfs/QmTedsTekQQkgACJXb1sPZSW8bLdS9LPMrT7L4YdjNRd4n"
+    );
+  });
+
+  it("Should compute the hash of nested directories", async () => {
+    const dirPath = path.join(testDir, "release");
+    fs.mkdirSync(path.join(dirPath, "docs", "img"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dirPath, "dappnode_package.json"),
+      `{"name":"admin.dnp.dappnode.eth"}`
+    );
+    fs.writeFileSync(
+      path.join(dirPath, "docker-compose.yml"),
+      "version: '3.5'\n"
+    );
+    fs.writeFileSync(path.join(dirPath, "docs", "README.md"), "# Docs\n");
+    writePatternFile(path.join(dirPath, "docs", "img", "logo.txt"), 300000);
+    expect(await computeIpfsHash(dirPath)).to.equal(
+      "/ipfs/QmeZmYG5pbmhKULvQppsuobk8ptoN8AZo9vqYfUrmS9omn"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import http from "http";
+import { URL } from "url";
+import { expect } from "chai";
+import { getReleaseFileSizes } from "../../src/utils/releaseAvailability";
+import { useMockServer, expectRejection } from "../testUtils";
+
+describe("utils / releaseAvailability", function () {
+  this.timeout(60 * 1000);
+
+  const releaseFiles: { [name: string]: number } = {
+    "dappnode_package.json": 1042,
+    "docker-compose.yml": 310
+  };
+  let requests = 0;
+
+  // Mock of a gateway, QmUnavailable fails as a gateway timeout
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "", "http://localhost");
+    requests++;
+    if (url.pathname.startsWith("/ipfs/QmRelease/")) {
+      const size = releaseFiles[url.pathname.replace("/ipfs/QmRelease/", "")];
+      if (size === undefined) res.statusCode = 404;
+      else res.setHeader("Content-Length", size);
+      res.end();
+    } else {
+      res.statusCode = 504;
+      res.end();
+    }
+  });
+  const mock = useMockServer(server);
+  beforeEach("Reset requests", () => {
+    requests = 0;
+  });
+
+  const fileNames = [
+    "dappnode_package.json",
+    "docker-compose.yml",
+    "avatar.png"
+  ];
+
+  it("Should check the release files through a gateway", async () => {
+    const sizes = await getReleaseFileSizes({
+      releaseHash: "/ipfs/QmRelease",
+      fileNames,
+      gatewayUrl: mock.url
+    });
+    expect(sizes).to.deep.equal({
+      "dappnode_package.json": 1042,
+      "docker-compose.yml": 310
+    });
+  });
+
+  it("Should throw without retrying if the release is not reachable", async () => {
+    const error = await expectRejection(
+      getReleaseFileSizes({
+        releaseHash: "/ipfs/QmUnavailable",
+        fileNames,
+        gatewayUrl: mock.url
+      })
+    );
+    expect(error.message).to.equal(
+      "dappnode_package.json: 504 Gateway Timeout"
+    );
+    expect(requests).to.equal(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import {
+  addReleaseRecord,
+  readReleaseRecord
+} from "../../src/utils/releaseRecord";
+import { cleanTestDir, testDir } from "../testUtils";
+
+describe("utils / releaseRecord", () => {
+  beforeEach("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+
+  const version = "0.1.0";
+
+  it("Should record every location of a release", () => {
+    for (const to of ["http://localhost:5001", "pinata"])
+      addReleaseRecord({ dir: testDir, version, hash: "/ipfs/QmA", to });
+
+    const { hash, uploadedTo } = readReleaseRecord(testDir, version);
+    expect(hash).to.equal("/ipfs/QmA");
+    expect(Object.keys(uploadedTo)).to.deep.equal([
+      "http://localhost:5001",
+      "pinata"
+    ]);
+  });
+
+  it("Should reset the locations of a new release hash", () => {
+    addReleaseRecord({
+      dir: testDir,
+      version,
+      hash: "/ipfs/QmA",
+      to: "pinata"
+    });
+    addReleaseRecord({
+      dir: testDir,
+      version,
+      hash: "/ipfs/QmB",
+      to: "dappnode"
+    });
+
+    const { hash, uploadedTo } = readReleaseRecord(testDir, version);
+    expect(hash).to.equal("/ipfs/QmB");
+    expect(Object.keys(uploadedTo)).to.deep.equal(["dappnode"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { getSafeTxBuilderBatch, getSafeTxHash } from "../../src/utils/safe";
+import { TxData } from "../../src/types";
+
+describe("utils / safe", () => {
+  const safeAddress = "0x849D52316331967b6fF1198e5E32A0eB168D039d";
+  const txData: TxData = {
+    to: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+    value: 0,
+    data: "0x73053410",
+    gasLimit: 300000,
+    ensName: "admin.dnp.dappnode.eth",
+    currentVersion: "0.1.0",
+    releaseMultiHash: "/ipfs/Qm",
+    chainId: 100
+  };
+
+  it("Should get a Transaction Builder batch", () => {
+    const batch = getSafeTxBuilderBatch(txData, safeAddress);
+    expect(batch.chainId).to.equal("100");
+    expect(batch.meta.createdFromSafeAddress).to.equal(safeAddress);
+    expect(batch.transactions).to.deep.equal([
+      { to: txData.to, value: "0", data: txData.data }
+    ]);
+  });
+
+  it("Should get the SafeTx hash as computed by the Safe contract", () => {
+    const nonce = 5;
+    const { defaultAbiCoder, keccak256, solidityPack } = ethers.utils;
+    // Safe v1.3.0 DOMAIN_SEPARATOR_TYPEHASH and SAFE_TX_TYPEHASH
+    const domainSeparator = keccak256(
+      defaultAbiCoder.encode(
+        ["bytes32", "uint256", "address"],
+        [
+          "0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218",
+          txData.chainId,
+          safeAddress
+        ]
+      )
+    );
+    const safeTxHash = keccak256(
+      defaultAbiCoder.encode(
+        [
+          "bytes32",
+          "address",
+          "uint256",
+          "bytes32",
+          "uint8",
+          "uint256",
+          "uint256",
+          "uint256",
+          "address",
+          "address",
+          "uint256"
+        ],
+        [
+          "0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8",
+          txData.to,
+          txData.value,
+          keccak256(txData.data),
+          0,
+          0,
+          0,
+          0,
+          ethers.constants.AddressZero,
+          ethers.constants.AddressZero,
+          nonce
+        ]
+      )
+    );
+    const expectedHash = keccak256(
+      solidityPack(
+        ["bytes1", "bytes1", "bytes32", "bytes32"],
+        ["0x19", "0x01", domainSeparator, safeTxHash]
+      )
+    );
+
+    expect(getSafeTxHash({ txData, safeAddress, nonce })).to.equal(
+      expectedHash
+    );
+  });
+});
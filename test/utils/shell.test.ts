@@ -26,6 +26,11 @@ echo "hello"
     expect(errorMessage).to.include("TIMEOUT");
   });
 
+  it("Execute a command in another directory", async () => {
+    const output = await shell("pwd", { cwd: "/" });
+    expect(output).to.equal("/");
+  });
+
   it("Show a rich typed error", async () => {
     const cmd = "cat does-not-exist";
     const error: ShellError | null = await shell(cmd)
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { getEip681Uri, getUnsignedTx } from "../../src/utils/unsignedTx";
+import { TxData } from "../../src/types";
+
+describe("utils / unsignedTx", () => {
+  // Well known development private key, do not use in production
+  const wallet = new ethers.Wallet(
+    "0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d"
+  );
+
+  const txData: TxData = {
+    to: "0xEe66C4765696C922078e8670aA9E6d4F6fFcc455",
+    value: 0,
+    data: "0x73053410",
+    gasLimit: 300000,
+    maxFeePerGas: "30000000000",
+    maxPriorityFeePerGas: "1000000000",
+    ensName: "admin.dnp.dappnode.eth",
+    currentVersion: "0.1.0",
+    releaseMultiHash: "/ipfs/Qm",
+    chainId: 1
+  };
+
+  // Only the methods used by getUnsignedTx
+  const provider = ({
+    getTransactionCount: async () => 7,
+    getGasPrice: async () => ethers.BigNumber.from(20e9)
+  } as unknown) as ethers.providers.Provider;
+
+  it("Should serialize a tx that can be signed offline", async () => {
+    const tx = await getUnsignedTx(provider, txData, wallet.address);
+    const serialized = ethers.utils.serializeTransaction(tx);
+    expect(ethers.utils.parseTransaction(serialized).from).to.equal(undefined);
+
+    // Sign the serialized tx as an offline signer would
+    const signature = wallet
+      ._signingKey()
+      .signDigest(ethers.utils.keccak256(serialized));
+    const signedTx = ethers.utils.parseTransaction(
+      ethers.utils.serializeTransaction(tx, signature)
+    );
+    expect(signedTx.from).to.equal(wallet.address);
+    expect(signedTx.to).to.equal(txData.to);
+    expect(signedTx.nonce).to.equal(7);
+    expect(signedTx.chainId).to.equal(1);
+    expect(signedTx.type).to.equal(2);
+    expect(signedTx.data).to.equal(txData.data);
+    expect(signedTx.gasLimit.toNumber()).to.equal(300000);
+    expect(String(signedTx.maxFeePerGas)).to.equal("30000000000");
+    expect(String(signedTx.maxPriorityFeePerGas)).to.equal("1000000000");
+    expect(signedTx.gasPrice).to.equal(null);
+  });
+
+  it("Should use the gas price without EIP-1559 fees", async () => {
+    const tx = await getUnsignedTx(
+      provider,
+      { ...txData, maxFeePerGas: undefined, maxPriorityFeePerGas: undefined },
+      wallet.address
+    );
+    expect(tx.type).to.equal(undefined);
+    expect(tx.maxFeePerGas).to.equal(undefined);
+    expect(tx.maxPriorityFeePerGas).to.equal(undefined);
+    expect(String(tx.gasPrice)).to.equal("20000000000");
+    expect(tx.nonce).to.equal(7);
+  });
+
+  it("Should get the EIP-681 URI", () => {
+    expect(getEip681Uri(txData)).to.equal(
+      "ethereum:0xEe66C4765696C922078e8670aA9E6d4F6fFcc455@1?value=0&gasLimit=300000&data=0x73053410"
+    );
+  });
+});
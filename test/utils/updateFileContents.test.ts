@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import yaml from "js-yaml";
+import { Compose } from "../../src/types";
+import {
+  updateJsonContents,
+  updateYamlContents
+} from "../../src/utils/updateFileContents";
+
+describe("utils / updateFileContents", () => {
+  describe("updateYamlContents", () => {
+    it("Should keep comments, key order and formatting", () => {
+      const data = `# DAppNode Package
+version: "0.1.0" # bumped by the SDK
+name: geth.dnp.dappnode.eth
+links:
+  homepage: https://geth.ethereum.org
+  # Admin UI
+  ui: http://geth.dappnode
+`;
+
+      const result = updateYamlContents(data, {
+        version: "0.1.1",
+        name: "geth.dnp.dappnode.eth",
+        links: { homepage: "https://geth.ethereum.org" },
+        upstreamVersion: "v1.10.0"
+      });
+
+      expect(result).to.equal(`# DAppNode Package
+version: "0.1.1" # bumped by the SDK
+name: geth.dnp.dappnode.eth
+links:
+  homepage: https://geth.ethereum.org
+upstreamVersion: v1.10.0
+`);
+    });
+
+    it("Should keep anchors, aliases and merge keys", () => {
+      const data = `version: "3.5"
+x-common: &common
+  restart: unless-stopped
+  logging: &logging
+    driver: json-file
+    options:
+      max-size: 10m
+services:
+  beacon:
+    <<: *common
+    image: beacon.prysm.dnp.dappnode.eth:0.1.0
+    volumes: &volumes
+      - data:/data
+  validator:
+    <<: *common
+    image: validator.prysm.dnp.dappnode.eth:0.1.0
+    volumes: *volumes
+    ports: [3500, "13000:13000"]
+volumes:
+  data: {}
+`;
+      // Parse as readCompose, that expands aliases and merge keys
+      const compose = yaml.safeLoad(data) as Compose;
+      compose.services.beacon.image = "beacon.prysm.dnp.dappnode.eth:0.1.1";
+      compose.services.validator.image =
+        "validator.prysm.dnp.dappnode.eth:0.1.1";
+      compose.services.validator.restart = "always";
+
+      expect(updateYamlContents(data, compose)).to.equal(`version: "3.5"
+x-common: &common
+  restart: unless-stopped
+  logging: &logging
+    driver: json-file
+    options:
+      max-size: 10m
+services:
+  beacon:
+    <<: *common
+    image: beacon.prysm.dnp.dappnode.eth:0.1.1
+    volumes: &volumes
+      - data:/data
+  validator:
+    <<: *common
+    image: validator.prysm.dnp.dappnode.eth:0.1.1
+    volumes: *volumes
+    ports: [3500, "13000:13000"]
+    restart: always
+volumes:
+  data: {}
+`);
+    });
+
+    it("Should only replace the edited collections", () => {
+      const data = `version: "3.5"
+services:
+  app:
+    image: app:0.1.0 # Tag bumped by the SDK
+    ports: [3500, "13000:13000"]
+    environment:
+      - NETWORK=mainnet
+    volumes:
+      - data:/data
+volumes:
+  data: {}
+`;
+      const compose = yaml.safeLoad(data) as Compose;
+      const service = compose.services.app;
+      service.ports = [...(service.ports || []), "22:22"];
+      service.environment = ["NETWORK=mainnet", "LOG_LEVEL=info"];
+      compose.volumes = { data: { driver: "local" } };
+
+      expect(updateYamlContents(data, compose)).to.equal(`version: "3.5"
+services:
+  app:
+    image: app:0.1.0 # Tag bumped by the SDK
+    ports: [ 3500, "13000:13000", "22:22" ]
+    environment:
+      - NETWORK=mainnet
+      - LOG_LEVEL=info
+    volumes:
+      - data:/data
+volumes:
+  data:
+    driver: local
+`);
+    });
+  });
+
+  describe("updateJsonContents", () => {
+    it("Should keep key order and formatting", () => {
+      const data = `{
+  "version": "0.1.0",
+  "name": "geth.dnp.dappnode.eth",
+  "architectures": ["linux/amd64"],
+  "links": {
+    "homepage": "https://geth.ethereum.org",
+    "ui": "http://geth.dappnode"
+  }
+}
+`;
+
+      const result = updateJsonContents(data, {
+        version: "0.1.1",
+        name: "geth.dnp.dappnode.eth",
+        architectures: ["linux/amd64"],
+        links: { homepage: "https://geth.ethereum.org" },
+        upstreamVersion: "v1.10.0"
+      });
+
+      expect(result).to.equal(`{
+  "version": "0.1.1",
+  "name": "geth.dnp.dappnode.eth",
+  "architectures": ["linux/amd64"],
+  "links": {
+    "homepage": "https://geth.ethereum.org"
+  },
+  "upstreamVersion": "v1.10.0"
+}
+`);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { Compose } from "../../src/types";
+import { getComposeErrors } from "../../src/utils/validateCompose";
+
+describe("utils / validateCompose", () => {
+  it("Should accept a valid compose", () => {
+    const compose: Compose = {
+      version: "3.4",
+      services: {
+        geth: {
+          build: { context: ".", args: { UPSTREAM_VERSION: "v1.9.25" } },
+          image: "geth.dnp.dappnode.eth:0.1.0",
+          volumes: ["data:/root/.ethereum", "/etc/hostname:/etc/host:ro"],
+          ports: ["30303:30303/udp"],
+          environment: { EXTRA_OPTS: "" },
+          restart: "on-failure:5",
+          networks: ["dncore_network"]
+        }
+      },
+      volumes: { data: {} },
+      networks: { dncore_network: { external: true } }
+    };
+
+    expect(getComposeErrors(compose)).to.deep.equal([]);
+  });
+
+  it("Should report all errors with their path", () => {
+    const compose = {
+      version: "3.4",
+      services: {
+        geth: {
+          image: "geth.dnp.dappnode.eth:0.1.0",
+          volumes: [
+            "data:/root/.ethereum",
+            "logs:/var/log",
+            5,
+            { type: "volume", source: "keys", target: "/keys" },
+            { type: "bind", source: "./config", target: "/config" }
+          ],
+          restart: "on-failure:",
+          network_mode: "host"
+        }
+      },
+      volumes: {
+        data: { driver: "local", driver_opts: { type: "none" } }
+      },
+      networks: { geth_net: { driver: "bridge" } },
+      build_args: {}
+    };
+
+    expect(getComposeErrors((compose as unknown) as Compose)).to.deep.equal([
+      "compose should NOT have additional properties 'build_args'",
+      "compose.services.geth.volumes[2] should be string,object",
+      'compose.services.geth.restart should be one of "no", "always", "unless-stopped", "on-failure[:max-retries]"',
+      "compose.volumes.data.driver is not allowed, volumes can only be declared locally or as external",
+      "compose.volumes.data.driver_opts is not allowed, volumes can only be declared locally or as external",
+      "compose.networks.geth_net must be declared as external",
+      "compose.services.geth.network_mode 'host' is only allowed for core packages",
+      "compose.services.geth.volumes[1] references volume 'logs' not declared in compose.volumes",
+      "compose.services.geth.volumes[3] references volume 'keys' not declared in compose.volumes"
+    ]);
+  });
+
+  it("Should accept any property of the compose spec", () => {
+    const compose = {
+      version: "3.5",
+      "x-logging": { driver: "json-file" },
+      services: {
+        geth: {
+          image: "geth.dnp.dappnode.eth:0.1.0",
+          stop_grace_period: "3m",
+          ulimits: { nofile: { soft: 65536, hard: 65536 } },
+          depends_on: ["db"],
+          security_opt: ["no-new-privileges"],
+          healthcheck: { test: ["CMD", "geth", "attach"], interval: "30s" },
+          expose: [8545],
+          ports: [30303, "30303:30303/udp"],
+          dns: ["172.33.1.2", "8.8.8.8"],
+          networks: { dncore_network: { aliases: ["geth.dappnode"] } }
+        },
+        db: { image: "postgres:13" }
+      },
+      networks: {
+        dncore_network: { external: true, name: "dncore_network" }
+      }
+    };
+
+    expect(getComposeErrors((compose as unknown) as Compose)).to.deep.equal(
+      []
+    );
+  });
+
+  it("Should allow host networking and own networks for core packages", () => {
+    const compose: Compose = {
+      version: "3.4",
+      services: {
+        vpn: {
+          image: "vpn.dnp.dappnode.eth:0.2.0",
+          network_mode: "host"
+        }
+      },
+      networks: {
+        dncore_network: {
+          driver: "bridge",
+          ipam: { config: [{ subnet: "172.33.0.0/16" }] }
+        }
+      }
+    };
+
+    expect(getComposeErrors(compose, { isCore: true })).to.deep.equal([]);
+  });
+});
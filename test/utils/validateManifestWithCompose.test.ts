@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { Compose, Manifest } from "../../src/types";
+import { validateManifestWithCompose } from "../../src/utils/validateManifestWithCompose";
+
+describe("utils / validateManifestWithCompose", () => {
+  const compose: Compose = {
+    version: "3.4",
+    services: {
+      beacon_chain: {
+        image: "beacon_chain.prysm.dnp.dappnode.eth:0.1.0",
+        volumes: ["beacon_data:/data"]
+      },
+      validator: {
+        image: "validator.prysm.dnp.dappnode.eth:0.1.0",
+        volumes: ["validator_data:/root/.eth2validators"]
+      }
+    },
+    volumes: { beacon_data: {}, validator_data: {} }
+  };
+
+  it("Should accept a manifest consistent with the compose", () => {
+    const manifest: Manifest = {
+      name: "prysm.dnp.dappnode.eth",
+      version: "0.1.0",
+      mainService: "beacon_chain",
+      architectures: ["linux/amd64", "linux/arm64"],
+      backup: [
+        {
+          name: "keystore",
+          path: "/root/.eth2validators/keystore",
+          service: "validator"
+        },
+        { name: "db", path: "/data" }
+      ],
+      exposable: [
+        { name: "Beacon chain API", serviceName: "beacon_chain", port: 3500 }
+      ],
+      globalEnvs: [{ envs: ["ACTIVE"], services: ["validator"] }]
+    };
+
+    expect(validateManifestWithCompose(manifest, compose)).to.deep.equal({
+      valid: true,
+      errors: []
+    });
+  });
+
+  it("Should report services and paths not found in the compose", () => {
+    const manifest: Manifest = {
+      name: "prysm.dnp.dappnode.eth",
+      version: "0.1.0",
+      architectures: ["linux/arm64"],
+      backup: [
+        { name: "keystore", path: "/root/keystore", service: "validator" },
+        { name: "config", path: "/config", service: "validatr" }
+      ],
+      exposable: [
+        { name: "Beacon chain API", serviceName: "beacon", port: 80 }
+      ],
+      globalEnvs: [{ envs: ["ACTIVE"], services: ["validator", "web"] }]
+    };
+
+    expect(
+      validateManifestWithCompose(manifest, compose).errors
+    ).to.deep.equal([
+      "manifest.mainService is required for multi-service packages",
+      "manifest.backup.0.path '/root/keystore' is not in a named volume of service 'validator'",
+      "manifest.backup.1.service 'validatr' is not a service in the compose",
+      "manifest.exposable.0.serviceName 'beacon' is not a service in the compose",
+      "manifest.globalEnvs.0.services.1 'web' is not a service in the compose",
+      "manifest.architectures must include default arch 'linux/amd64'"
+    ]);
+  });
+
+  it("Should only accept backup paths in declared named volumes", () => {
+    const composeWithBinds: Compose = {
+      version: "3.4",
+      services: {
+        validator: {
+          image: "validator.prysm.dnp.dappnode.eth:0.1.0",
+          volumes: [
+            {
+              type: "volume",
+              source: "validator_data",
+              target: "/root/.eth2validators"
+            },
+            { type: "bind", source: "./config", target: "/config" },
+            "/var/run/docker.sock:/var/run/docker.sock",
+            "logs:/var/log"
+          ]
+        }
+      },
+      volumes: { validator_data: {} }
+    };
+    const manifest: Manifest = {
+      name: "prysm.dnp.dappnode.eth",
+      version: "0.1.0",
+      backup: [
+        { name: "keystore", path: "/root/.eth2validators/keystore" },
+        { name: "config", path: "/config/config.yml" },
+        { name: "socket", path: "/var/run/docker.sock" },
+        { name: "logs", path: "/var/log" }
+      ]
+    };
+
+    expect(
+      validateManifestWithCompose(manifest, composeWithBinds).errors
+    ).to.deep.equal([
+      "manifest.backup.1.path '/config/config.yml' is not in a named volume of service 'validator'",
+      "manifest.backup.2.path '/var/run/docker.sock' is not in a named volume of service 'validator'",
+      "manifest.backup.3.path '/var/log' is not in a named volume of service 'validator'"
+    ]);
+  });
+});
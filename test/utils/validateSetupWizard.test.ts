@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { Compose, SetupWizard } from "../../src/types";
+import { getSetupWizardErrors } from "../../src/utils/validateSetupWizard";
+
+describe("utils / validateSetupWizard", () => {
+  const compose: Compose = {
+    version: "3.4",
+    services: {
+      geth: {
+        image: "geth.dnp.dappnode.eth:0.1.0",
+        volumes: ["data:/root/.ethereum"],
+        ports: ["30303:30303/udp", "8545"],
+        environment: { EXTRA_OPTS: "" }
+      },
+      monitor: {
+        image: "monitor.geth.dnp.dappnode.eth:0.1.0",
+        environment: ["PAYOUT_ADDRESS="]
+      }
+    },
+    volumes: { data: {} }
+  };
+
+  it("Should accept a valid setup wizard", () => {
+    const setupWizard: SetupWizard = {
+      version: "2",
+      fields: [
+        {
+          id: "extraOpts",
+          title: "Extra options",
+          description: "Extra geth flags",
+          target: { type: "environment", name: "EXTRA_OPTS", service: "geth" }
+        },
+        {
+          id: "payoutAddress",
+          title: "Payout address",
+          description: "Address to receive rewards",
+          target: { type: "environment", name: "PAYOUT_ADDRESS" }
+        },
+        {
+          id: "p2pPort",
+          title: "P2P port",
+          description: "Host port for P2P",
+          target: { type: "portMapping", containerPort: "30303/UDP" }
+        },
+        {
+          id: "dataMountpoint",
+          title: "Data mountpoint",
+          description: "Where to store the chain data",
+          target: { type: "namedVolumeMountpoint", volumeName: "data" }
+        },
+        {
+          id: "keystore",
+          title: "Keystore",
+          description: "Keystore file",
+          target: { type: "fileUpload", path: "/root/.ethereum/keystore" }
+        }
+      ]
+    };
+
+    expect(getSetupWizardErrors(setupWizard, compose)).to.deep.equal([]);
+  });
+
+  it("Should accept numeric and long syntax ports and volumes", () => {
+    const composeLongSyntax: Compose = {
+      version: "3.4",
+      services: {
+        geth: {
+          image: "geth.dnp.dappnode.eth:0.1.0",
+          volumes: [
+            { type: "volume", source: "data", target: "/root/.ethereum" }
+          ],
+          ports: [8545, { target: 30303, published: 30303, protocol: "udp" }]
+        }
+      },
+      volumes: { data: {} }
+    };
+    const setupWizard: SetupWizard = {
+      version: "2",
+      fields: [
+        {
+          id: "rpcPort",
+          title: "RPC port",
+          description: "Host port for RPC",
+          target: { type: "portMapping", containerPort: "8545" }
+        },
+        {
+          id: "p2pPort",
+          title: "P2P port",
+          description: "Host port for P2P",
+          target: { type: "portMapping", containerPort: "30303/udp" }
+        },
+        {
+          id: "wsPort",
+          title: "WS port",
+          description: "Host port for WS",
+          target: { type: "portMapping", containerPort: "30303" }
+        },
+        {
+          id: "keystore",
+          title: "Keystore",
+          description: "Keystore file",
+          target: { type: "fileUpload", path: "/root/.ethereum/keystore" }
+        }
+      ]
+    };
+
+    expect(getSetupWizardErrors(setupWizard, composeLongSyntax)).to.deep.equal([
+      "setupWizard.fields[2].target.containerPort '30303' is not a container port of service 'geth'"
+    ]);
+  });
+
+  it("Should report schema errors", () => {
+    const setupWizard = {
+      version: "2",
+      fields: [{ id: "payoutAddress", title: "Payout address" }]
+    };
+
+    expect(
+      getSetupWizardErrors((setupWizard as unknown) as SetupWizard, compose)
+    ).to.deep.equal([
+      "setupWizard.fields[0] should have required property 'description'"
+    ]);
+  });
+
+  it("Should report targets not found in the compose", () => {
+    const setupWizard: SetupWizard = {
+      version: "2",
+      fields: [
+        {
+          id: "extraOpts",
+          title: "Extra options",
+          description: "Extra geth flags",
+          target: { type: "environment", name: "EXTRA_OPTS", service: "gteh" }
+        },
+        {
+          id: "extraOpts",
+          title: "Payout address",
+          description: "Address to receive rewards",
+          target: {
+            type: "environment",
+            name: "PAYOUT_ADRESS",
+            service: "monitor"
+          }
+        },
+        {
+          id: "rpcPort",
+          title: "RPC port",
+          description: "Host port for RPC",
+          target: { type: "portMapping", containerPort: "8546" }
+        },
+        {
+          id: "dataMountpoint",
+          title: "Data mountpoint",
+          description: "Where to store the chain data",
+          target: { type: "namedVolumeMountpoint", volumeName: "chaindata" }
+        },
+        {
+          id: "keystore",
+          title: "Keystore",
+          description: "Keystore file",
+          target: { type: "fileUpload", path: "keystore" }
+        },
+        {
+          id: "config",
+          title: "Config",
+          description: "Config file",
+          target: { type: "fileUpload", path: "/root/config.toml" }
+        }
+      ]
+    };
+
+    expect(getSetupWizardErrors(setupWizard, compose)).to.deep.equal([
+      "setupWizard.fields[0].target.service 'gteh' is not a service in the compose",
+      "setupWizard.fields[1].id 'extraOpts' is duplicated",
+      "setupWizard.fields[1].target.name 'PAYOUT_ADRESS' is not an environment variable of service 'monitor'",
+      "setupWizard.fields[2].target.containerPort '8546' is not a container port of services 'geth', 'monitor'",
+      "setupWizard.fields[3].target.volumeName 'chaindata' is not declared in compose.volumes",
+      "setupWizard.fields[4].target.path 'keystore' must be an absolute path",
+      "setupWizard.fields[5].target.path '/root/config.toml' is not in a volume of services 'geth', 'monitor'"
+    ]);
+  });
+});
@@ -24,7 +24,7 @@ describe("increaseFromLocalVersion", function () {
     name: dnpName,
     version: "0.1.0",
     avatar: "/ipfs/QmUG9Y13BvmKC4RzFu85F7Ai63emnEYrci4pqbbLxt3mt1",
-    type: "dncore",
+    type: "dncore" as const,
     image: {
       path: "dnpinner.public.dappnode.eth_0.0.1.tar.xz",
       hash: "/ipfs/QmcgHQ17z1UK4poEXDr4bzhiPPtLKxPEZTgiktXgcy1JJU",
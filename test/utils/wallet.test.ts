@@ -0,0 +1,45 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { loadWallet } from "../../src/utils/wallet";
+import { cleanTestDir, testDir, expectRejection } from "../testUtils";
+
+describe("utils / wallet", function () {
+  this.timeout(60 * 1000);
+
+  // Well known development private key, do not use in production
+  const privateKey =
+    "0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d";
+  const address = new ethers.Wallet(privateKey).address;
+
+  before("Clean testDir", () => cleanTestDir());
+  after("Clean testDir", () => cleanTestDir());
+  afterEach("Clean ENVs", () => {
+    delete process.env.PRIVATE_KEY;
+    delete process.env.KEYSTORE_PASSWORD;
+  });
+
+  it("Should load a wallet from the PRIVATE_KEY ENV", async () => {
+    process.env.PRIVATE_KEY = privateKey;
+    const wallet = await loadWallet({});
+    expect(wallet.address).to.equal(address);
+  });
+
+  it("Should load a wallet from an encrypted keystore", async () => {
+    const keystorePath = path.join(testDir, "keystore.json");
+    const keystore = await new ethers.Wallet(privateKey).encrypt("secret", {
+      scrypt: { N: 2 }
+    });
+    fs.writeFileSync(keystorePath, keystore);
+
+    process.env.KEYSTORE_PASSWORD = "secret";
+    const wallet = await loadWallet({ keystorePath });
+    expect(wallet.address).to.equal(address);
+  });
+
+  it("Should throw without a wallet source", async () => {
+    const error = await expectRejection(loadWallet({}));
+    expect(error.message).to.include("requires a wallet");
+  });
+});